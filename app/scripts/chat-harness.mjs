@@ -0,0 +1,89 @@
+/**
+ * Chat Harness runner — `npm run test:chat`
+ *
+ * Starts `next dev` on CHAT_HARNESS_PORT (default 3100), runs every scenario
+ * through GET /api/chat/harness (or one, with CHAT_HARNESS_SCENARIO=name),
+ * prints the results and stops the server. Exits 1 if any scenario fails
+ * or the server does not come up.
+ *
+ * The scenarios use mock models and a draw seed, so no API keys or network are needed.
+ */
+
+import { spawn } from 'child_process';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const appDir = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const port = Number(process.env.CHAT_HARNESS_PORT) || 3100;
+const scenario = process.env.CHAT_HARNESS_SCENARIO;
+const STARTUP_TIMEOUT_MS = 180000;
+const RUN_TIMEOUT_MS = 300000; // The first request compiles the routes
+
+const server = spawn(path.join(appDir, 'node_modules', '.bin', 'next'), ['dev', '--port', String(port)], {
+    cwd: appDir,
+    env: { ...process.env, NODE_ENV: 'development', NEXT_TELEMETRY_DISABLED: '1' },
+    stdio: ['ignore', 'pipe', 'pipe'],
+});
+
+let serverOutput = '';
+server.stdout.on('data', chunk => serverOutput += chunk);
+server.stderr.on('data', chunk => serverOutput += chunk);
+
+const serverExited = new Promise(resolve => server.on('exit', code => resolve(code)));
+
+async function waitForServer() {
+    const deadline = Date.now() + STARTUP_TIMEOUT_MS;
+    while (Date.now() < deadline) {
+        if (server.exitCode !== null) {
+            throw new Error(`next dev exited with code ${server.exitCode}`);
+        }
+        try {
+            await fetch(`http://localhost:${port}/`, { method: 'HEAD', signal: AbortSignal.timeout(5000) });
+            return;
+        } catch {
+            await new Promise(resolve => setTimeout(resolve, 1000));
+        }
+    }
+    throw new Error(`next dev did not start within ${STARTUP_TIMEOUT_MS / 1000}s`);
+}
+
+async function runHarness() {
+    const query = scenario ? `?scenario=${encodeURIComponent(scenario)}` : '';
+    const response = await fetch(`http://localhost:${port}/api/chat/harness${query}`, {
+        signal: AbortSignal.timeout(RUN_TIMEOUT_MS),
+    });
+    const report = await response.json();
+    if (!response.ok) {
+        throw new Error(`Harness returned HTTP ${response.status}: ${report.error ?? 'request failed'}`);
+    }
+
+    for (const result of report.results) {
+        console.log(`${result.passed ? 'PASS' : 'FAIL'}  ${result.name}: ${result.description}`);
+        if (!result.passed) {
+            console.log(`      expected: ${result.expected.join(' ')}`);
+            console.log(`      received: ${result.events.join(' ')}`);
+            for (const error of result.errors) console.log(`      ${error}`);
+        }
+    }
+
+    const passed = report.results.filter(r => r.passed).length;
+    console.log(`\n${passed}/${report.results.length} scenarios passed`);
+    return report.passed;
+}
+
+let exitCode = 1;
+try {
+    await waitForServer();
+    exitCode = (await runHarness()) ? 0 : 1;
+} catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    if (serverOutput) console.error(`\nnext dev output:\n${serverOutput}`);
+} finally {
+    if (server.exitCode === null) {
+        server.kill('SIGTERM');
+        await Promise.race([serverExited, new Promise(resolve => setTimeout(resolve, 5000))]);
+        if (server.exitCode === null) server.kill('SIGKILL');
+    }
+}
+
+process.exit(exitCode);
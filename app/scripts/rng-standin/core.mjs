@@ -0,0 +1,306 @@
+/**
+ * RNG Stand-in — Offline mimic of the ANU QRNG and random.org APIs
+ *
+ * Framework-agnostic: takes a web Request and returns a Response, so it runs
+ * as a Node script (server.mjs) or inside Next (/api/rng/standin/[...path]).
+ * Point the providers at it with ANU_QRNG_BASE_URL and RANDOM_ORG_BASE_URL.
+ *
+ * Routes (relative to the mount point):
+ * - GET  /anu?type=uint16&length=N                  ANU QRNG JSON shape
+ * - POST /random-org/json-rpc/4/invoke              random.org JSON-RPC (generateIntegers, generateSignedIntegers)
+ * - GET  /random-org/public-key                     PEM key for RANDOM_ORG_PUBLIC_KEY
+ * - GET  /_script                                   Pending scripted failures
+ * - POST /_script  { provider, failures: [...] }    Queue failures ('anu' | 'random_org' | '*')
+ * - DELETE /_script                                 Clear every script
+ *
+ * A failure is { type, times?, delay_ms?, length? }:
+ * - timeout      hold the response for delay_ms (default 30000), then 504
+ * - http_500     500 Internal Server Error
+ * - rate_limit   ANU: 429; random.org: JSON-RPC error 402 (allowance exceeded)
+ * - short_batch  return `length` numbers (default half of those requested)
+ * - bad_signature  random.org only: sign different data than returned
+ * `times` is how many requests it applies to (default 1, or 'always').
+ *
+ * Signed integers use RNG_STANDIN_SIGNING_KEY (PEM private key) or a key
+ * generated at startup; fetch the matching public key from /random-org/public-key.
+ */
+
+import { createPrivateKey, createPublicKey, createSign, generateKeyPairSync, randomInt } from 'crypto';
+
+const PROVIDERS = ['anu', 'random_org'];
+const FAILURE_TYPES = ['timeout', 'http_500', 'rate_limit', 'short_batch', 'bad_signature'];
+const DEFAULT_TIMEOUT_DELAY_MS = 30000;
+const ANU_MAX_LENGTH = 1024;
+const RANDOM_ORG_MAX_N = 10000;
+
+/**
+ * @typedef {{ type: 'timeout' | 'http_500' | 'rate_limit' | 'short_batch' | 'bad_signature', times?: number | 'always', delay_ms?: number, length?: number }} StandinFailure
+ */
+
+function json(body, status = 200) {
+    return new Response(JSON.stringify(body), {
+        status,
+        headers: { 'Content-Type': 'application/json' },
+    });
+}
+
+function randomWords(length) {
+    return Array.from({ length }, () => randomInt(0, 65536));
+}
+
+/**
+ * Validate a list of scripted failures
+ * Returns an error message, or null if valid.
+ */
+function validateFailures(failures) {
+    if (!Array.isArray(failures)) {
+        return 'failures must be an array';
+    }
+    for (const failure of failures) {
+        if (!failure || !FAILURE_TYPES.includes(failure.type)) {
+            return `failure type must be one of ${FAILURE_TYPES.join(', ')}`;
+        }
+        if (failure.times !== undefined && failure.times !== 'always'
+            && !(Number.isInteger(failure.times) && failure.times > 0)) {
+            return 'times must be a positive integer or "always"';
+        }
+    }
+    return null;
+}
+
+/**
+ * Create a stand-in with its own failure scripts
+ * Throws if a provider's initial script is not a valid failure list.
+ * @param {{ script?: Partial<Record<'anu' | 'random_org', StandinFailure[]>>, signingKey?: string }} [options]
+ */
+export function createStandin(options = {}) {
+    /** @type {Record<string, StandinFailure[]>} */
+    const scripts = { anu: [], random_org: [] };
+    const privateKey = options.signingKey
+        ? createPrivateKey(options.signingKey)
+        : generateKeyPairSync('rsa', { modulusLength: 2048 }).privateKey;
+    const publicKeyPem = createPublicKey(privateKey).export({ type: 'spki', format: 'pem' }).toString();
+    let serialNumber = 0;
+
+    for (const provider of PROVIDERS) {
+        const failures = options.script?.[provider];
+        if (!failures) continue;
+        const failureError = validateFailures(failures);
+        if (failureError) {
+            throw new Error(`Invalid ${provider} failure script: ${failureError}`);
+        }
+        scripts[provider].push(...failures.map(f => ({ ...f })));
+    }
+
+    /**
+     * Take the next scripted failure for a provider, if any
+     * @returns {StandinFailure | null}
+     */
+    function nextFailure(provider) {
+        const failure = scripts[provider][0];
+        if (!failure) return null;
+
+        if (failure.times !== 'always') {
+            const remaining = (failure.times ?? 1) - 1;
+            if (remaining > 0) {
+                failure.times = remaining;
+            } else {
+                scripts[provider].shift();
+            }
+        }
+        return failure;
+    }
+
+    async function hold(failure, signal) {
+        const delayMs = failure.delay_ms ?? DEFAULT_TIMEOUT_DELAY_MS;
+        await new Promise(resolve => {
+            const timer = setTimeout(resolve, delayMs);
+            signal?.addEventListener('abort', () => {
+                clearTimeout(timer);
+                resolve(undefined);
+            });
+        });
+        return json({ message: 'Gateway Timeout' }, 504);
+    }
+
+    async function handleAnu(request) {
+        const url = new URL(request.url);
+        const type = url.searchParams.get('type');
+        const length = Number(url.searchParams.get('length'));
+
+        if (type !== 'uint16') {
+            return json({ success: false, message: 'Stand-in only supports type=uint16' }, 400);
+        }
+        if (!Number.isInteger(length) || length < 1 || length > ANU_MAX_LENGTH) {
+            return json({ success: false, message: `length must be between 1 and ${ANU_MAX_LENGTH}` }, 400);
+        }
+
+        const failure = nextFailure('anu');
+        switch (failure?.type) {
+            case 'timeout':
+                return hold(failure, request.signal);
+            case 'http_500':
+                return json({ message: 'Internal Server Error' }, 500);
+            case 'rate_limit':
+                return json({ message: 'Limit Exceeded' }, 429);
+            case 'short_batch': {
+                const shortLength = Math.min(failure.length ?? Math.floor(length / 2), length);
+                return json({ type, length: shortLength, data: randomWords(shortLength), success: true });
+            }
+            default:
+                return json({ type, length, data: randomWords(length), success: true });
+        }
+    }
+
+    async function handleRandomOrg(request) {
+        let body;
+        try {
+            body = await request.json();
+        } catch {
+            return json({ jsonrpc: '2.0', error: { code: -32700, message: 'Parse error' }, id: null });
+        }
+
+        const { method, params = {}, id = null } = body ?? {};
+        const rpcError = (code, message) => json({ jsonrpc: '2.0', error: { code, message, data: null }, id });
+
+        if (method !== 'generateIntegers' && method !== 'generateSignedIntegers') {
+            return rpcError(-32601, `Stand-in does not implement ${method}`);
+        }
+        const { n, min, max } = params;
+        if (!Number.isInteger(n) || n < 1 || n > RANDOM_ORG_MAX_N || min !== 0 || max !== 65535) {
+            return rpcError(-32602, `Stand-in expects 1 <= n <= ${RANDOM_ORG_MAX_N}, min 0 and max 65535`);
+        }
+
+        const failure = nextFailure('random_org');
+        let count = n;
+        switch (failure?.type) {
+            case 'timeout':
+                return hold(failure, request.signal);
+            case 'http_500':
+                return json({ message: 'Internal Server Error' }, 500);
+            case 'rate_limit':
+                return rpcError(402, 'The API key you specified has exceeded its daily request allowance');
+            case 'short_batch':
+                count = Math.min(failure.length ?? Math.floor(n / 2), n);
+                break;
+        }
+
+        const completionTime = new Date().toISOString().replace('T', ' ');
+        if (method === 'generateSignedIntegers') {
+            // Same field order as random.org; the signature covers JSON of `random`
+            const random = {
+                method,
+                hashedApiKey: 'stand-in',
+                n: count,
+                min,
+                max,
+                replacement: params.replacement ?? true,
+                base: 10,
+                pregeneratedRandomization: null,
+                data: randomWords(count),
+                license: { type: 'developer', text: 'Stand-in values for offline testing only', infoUrl: null },
+                licenseData: null,
+                userData: null,
+                ticketData: null,
+                completionTime,
+                serialNumber: ++serialNumber,
+            };
+            const signedJson = failure?.type === 'bad_signature'
+                ? JSON.stringify({ ...random, data: randomWords(count) })
+                : JSON.stringify(random);
+            const signature = createSign('RSA-SHA512').update(signedJson).sign(privateKey, 'base64');
+
+            return json({
+                jsonrpc: '2.0',
+                result: { random, signature, bitsUsed: count * 16, bitsLeft: 250000, requestsLeft: 1000, advisoryDelay: 0 },
+                id,
+            });
+        }
+
+        return json({
+            jsonrpc: '2.0',
+            result: {
+                random: { data: randomWords(count), completionTime },
+                bitsUsed: count * 16,
+                bitsLeft: 250000,
+                requestsLeft: 1000,
+                advisoryDelay: 0,
+            },
+            id,
+        });
+    }
+
+    async function handleScript(request) {
+        if (request.method === 'GET') {
+            return json(scripts);
+        }
+        if (request.method === 'DELETE') {
+            for (const provider of PROVIDERS) scripts[provider] = [];
+            return json(scripts);
+        }
+        if (request.method !== 'POST') {
+            return json({ error: 'Method not allowed' }, 405);
+        }
+
+        let body;
+        try {
+            body = await request.json();
+        } catch {
+            return json({ error: 'Body must be JSON' }, 400);
+        }
+
+        const { provider = '*', failures } = body ?? {};
+        if (provider !== '*' && !PROVIDERS.includes(provider)) {
+            return json({ error: `provider must be ${PROVIDERS.join(', ')} or *` }, 400);
+        }
+        const failureError = validateFailures(failures);
+        if (failureError) {
+            return json({ error: failureError }, 400);
+        }
+
+        for (const target of provider === '*' ? PROVIDERS : [provider]) {
+            scripts[target].push(...failures.map(f => ({ ...f })));
+        }
+        return json(scripts);
+    }
+
+    return {
+        /**
+         * Handle one request
+         * @param {Request} request
+         * @param {string[]} path Path segments below the mount point
+         * @returns {Promise<Response>}
+         */
+        async handle(request, path) {
+            const route = path.join('/');
+
+            if (route === '_script') {
+                return handleScript(request);
+            }
+            if (route === 'anu' && request.method === 'GET') {
+                return handleAnu(request);
+            }
+            if (route === 'random-org/json-rpc/4/invoke' && request.method === 'POST') {
+                return handleRandomOrg(request);
+            }
+            if (route === 'random-org/public-key' && request.method === 'GET') {
+                return new Response(publicKeyPem, { headers: { 'Content-Type': 'application/x-pem-file' } });
+            }
+            return json({ error: `No stand-in route for ${request.method} /${route}` }, 404);
+        },
+    };
+}
+
+/**
+ * Read the initial failure script from RNG_STANDIN_SCRIPT (JSON, same shape as GET /_script)
+ */
+export function scriptFromEnv() {
+    const raw = process.env.RNG_STANDIN_SCRIPT;
+    if (!raw) return undefined;
+    try {
+        return JSON.parse(raw);
+    } catch {
+        console.warn('RNG_STANDIN_SCRIPT is not valid JSON; starting without failures');
+        return undefined;
+    }
+}
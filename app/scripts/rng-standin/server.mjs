@@ -0,0 +1,53 @@
+/**
+ * RNG Stand-in server — `npm run rng:standin`
+ *
+ * Serves the stand-in (core.mjs) on RNG_STANDIN_PORT (default 8787). Then:
+ *   ANU_QRNG_BASE_URL=http://localhost:8787/anu
+ *   RANDOM_ORG_BASE_URL=http://localhost:8787/random-org
+ *   RANDOM_ORG_PUBLIC_KEY=<GET http://localhost:8787/random-org/public-key>
+ * Initial failures can be scripted with RNG_STANDIN_SCRIPT, e.g.
+ *   RNG_STANDIN_SCRIPT='{"anu":[{"type":"timeout","delay_ms":6000}]}'
+ */
+
+import http from 'http';
+import { createStandin, scriptFromEnv } from './core.mjs';
+
+const port = Number(process.env.RNG_STANDIN_PORT) || 8787;
+const standin = createStandin({ script: scriptFromEnv(), signingKey: process.env.RNG_STANDIN_SIGNING_KEY });
+
+const server = http.createServer(async (req, res) => {
+    const controller = new AbortController();
+    res.on('close', () => controller.abort());
+
+    try {
+        const chunks = [];
+        for await (const chunk of req) chunks.push(chunk);
+        const body = chunks.length > 0 ? Buffer.concat(chunks) : undefined;
+
+        const url = new URL(req.url ?? '/', `http://localhost:${port}`);
+        const request = new Request(url, {
+            method: req.method,
+            headers: req.headers['content-type'] ? { 'content-type': req.headers['content-type'] } : undefined,
+            body: req.method === 'GET' || req.method === 'HEAD' ? undefined : body,
+            signal: controller.signal,
+        });
+
+        const response = await standin.handle(request, url.pathname.split('/').filter(Boolean));
+        if (res.destroyed) return;
+
+        res.writeHead(response.status, Object.fromEntries(response.headers));
+        res.end(await response.text());
+        console.log(`${req.method} ${url.pathname}${url.search} -> ${response.status}`);
+    } catch (error) {
+        console.error('Stand-in error:', error);
+        if (!res.headersSent) res.writeHead(500);
+        res.end();
+    }
+});
+
+server.listen(port, () => {
+    console.log(`RNG stand-in listening on http://localhost:${port}`);
+    console.log(`  ANU_QRNG_BASE_URL=http://localhost:${port}/anu`);
+    console.log(`  RANDOM_ORG_BASE_URL=http://localhost:${port}/random-org`);
+    console.log(`  RANDOM_ORG_PUBLIC_KEY from http://localhost:${port}/random-org/public-key`);
+});
@@ -0,0 +1,301 @@
+'use client';
+
+/**
+ * RNG Audit Page
+ *
+ * Charts the fairness report from /api/rng/audit: card frequencies against
+ * expectation, reversal ratio and provider share over a date range.
+ * Located at /admin/rng
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { RngAuditReport, ChiSquareResult } from '@/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SIGNIFICANCE = 0.01; // p-values below this are flagged
+
+function toDateInput(date: Date): string {
+    return date.toISOString().slice(0, 10);
+}
+
+function formatPValue(test: ChiSquareResult | null): string {
+    if (!test) return 'not enough data';
+    return test.p_value < 0.0001 ? 'p < 0.0001' : `p = ${test.p_value.toFixed(4)}`;
+}
+
+export default function RngAuditPage() {
+    const [from, setFrom] = useState(() => toDateInput(new Date(Date.now() - 30 * DAY_MS)));
+    const [to, setTo] = useState(() => toDateInput(new Date()));
+    const [report, setReport] = useState<RngAuditReport | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [selectedCardId, setSelectedCardId] = useState<number | null>(null);
+
+    const loadReport = useCallback(async () => {
+        setIsLoading(true);
+        setError(null);
+        try {
+            // The "to" day is included: the API bound is exclusive
+            const params = new URLSearchParams();
+            if (from) params.set('from', new Date(from).toISOString());
+            if (to) params.set('to', new Date(new Date(to).getTime() + DAY_MS).toISOString());
+
+            const response = await fetch(`/api/rng/audit?${params}`);
+            const data = await response.json();
+            if (!response.ok) {
+                throw new Error(data.error || 'Failed to load report');
+            }
+            setReport(data);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to load report');
+        } finally {
+            setIsLoading(false);
+        }
+    }, [from, to]);
+
+    // Reload whenever the range changes
+    useEffect(() => {
+        loadReport();
+    }, [loadReport]);
+
+    const maxCount = report
+        ? Math.max(1, ...report.card_frequency.map(c => Math.max(c.count, c.expected)))
+        : 1;
+    const selected = report && selectedCardId !== null ? report.card_frequency[selectedCardId] : null;
+
+    return (
+        <div style={styles.container}>
+            <header style={styles.header}>
+                <h1 style={styles.title}>RNG Fairness Audit</h1>
+                <input type="date" value={from} onChange={e => setFrom(e.target.value)} style={styles.input} />
+                <span style={styles.muted}>to</span>
+                <input type="date" value={to} onChange={e => setTo(e.target.value)} style={styles.input} />
+                <button onClick={loadReport} disabled={isLoading} style={styles.button}>
+                    {isLoading ? 'Loading...' : 'Refresh'}
+                </button>
+            </header>
+
+            {error && <p style={styles.error}>{error}</p>}
+
+            {report && (
+                <main style={styles.main}>
+                    <section style={styles.summary}>
+                        <Stat label="Draws" value={String(report.draws)} />
+                        <Stat label="Cards drawn" value={String(report.cards)} />
+                        <Stat
+                            label="Card frequency (χ²)"
+                            value={formatPValue(report.frequency_test)}
+                            flagged={!!report.frequency_test && report.frequency_test.p_value < SIGNIFICANCE}
+                        />
+                        <Stat
+                            label={`Reversed (expected ${(report.reversals.expected_ratio * 100).toFixed(1)}%)`}
+                            value={`${(report.reversals.ratio * 100).toFixed(1)}% · ${formatPValue(report.reversals.test)}`}
+                            flagged={!!report.reversals.test && report.reversals.test.p_value < SIGNIFICANCE}
+                        />
+                    </section>
+
+                    <section style={styles.panel}>
+                        <div style={styles.panelHeader}>
+                            <h2 style={styles.panelTitle}>Card frequency</h2>
+                            <select
+                                value={selectedCardId ?? ''}
+                                onChange={e => setSelectedCardId(e.target.value === '' ? null : Number(e.target.value))}
+                                style={styles.input}
+                            >
+                                <option value="">Highlight a card...</option>
+                                {report.card_frequency.map(card => (
+                                    <option key={card.card_id} value={card.card_id}>{card.name}</option>
+                                ))}
+                            </select>
+                        </div>
+
+                        {selected && (
+                            <p style={styles.muted}>
+                                <strong style={{ color: '#e0e0e0' }}>{selected.name}</strong>: drawn {selected.count} times,
+                                expected {selected.expected.toFixed(1)}
+                                {selected.count > 0 && `, ${selected.reversed} reversed`}
+                            </p>
+                        )}
+
+                        <div style={styles.chart}>
+                            {report.card_frequency.map(card => (
+                                <div
+                                    key={card.card_id}
+                                    title={`${card.name}: ${card.count} (expected ${card.expected.toFixed(1)})`}
+                                    onClick={() => setSelectedCardId(card.card_id)}
+                                    style={styles.barSlot}
+                                >
+                                    <div style={{
+                                        ...styles.bar,
+                                        height: `${(card.count / maxCount) * 100}%`,
+                                        background: card.card_id === selectedCardId ? '#e67e22' : card.card_id < 22 ? '#9b59b6' : '#3498db',
+                                    }} />
+                                    <div style={{ ...styles.expectedMark, bottom: `${(card.expected / maxCount) * 100}%` }} />
+                                </div>
+                            ))}
+                        </div>
+                        <p style={styles.muted}>Bars: times drawn (major arcana first). Lines: expected count.</p>
+                    </section>
+
+                    <section style={styles.panel}>
+                        <h2 style={styles.panelTitle}>Provider share</h2>
+                        {report.providers.length === 0 && <p style={styles.muted}>No draws in this range</p>}
+                        {report.providers.map(provider => (
+                            <div key={provider.provider} style={styles.providerRow}>
+                                <span style={styles.providerName}>{provider.provider}</span>
+                                <div style={styles.providerTrack}>
+                                    <div style={{ ...styles.providerBar, width: `${provider.share * 100}%` }} />
+                                </div>
+                                <span style={styles.muted}>{provider.draws} ({(provider.share * 100).toFixed(1)}%)</span>
+                            </div>
+                        ))}
+                    </section>
+                </main>
+            )}
+        </div>
+    );
+}
+
+function Stat({ label, value, flagged = false }: { label: string; value: string; flagged?: boolean }) {
+    return (
+        <div style={{ ...styles.stat, borderColor: flagged ? '#e74c3c' : '#2a2a3a' }}>
+            <span style={styles.muted}>{label}</span>
+            <span style={{ ...styles.statValue, color: flagged ? '#e74c3c' : '#e0e0e0' }}>{value}</span>
+        </div>
+    );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+    container: {
+        minHeight: '100vh',
+        backgroundColor: '#0f0f1a',
+        color: '#e0e0e0',
+        fontFamily: 'system-ui, -apple-system, sans-serif',
+    },
+    header: {
+        padding: '1rem 2rem',
+        borderBottom: '1px solid #2a2a3a',
+        display: 'flex',
+        alignItems: 'center',
+        gap: '0.75rem',
+    },
+    title: {
+        margin: '0 auto 0 0',
+        fontSize: '1.5rem',
+        background: 'linear-gradient(135deg, #9b59b6, #3498db)',
+        WebkitBackgroundClip: 'text',
+        WebkitTextFillColor: 'transparent',
+    },
+    input: {
+        padding: '0.5rem',
+        backgroundColor: '#1a1a2e',
+        border: '1px solid #2a2a3a',
+        borderRadius: '4px',
+        color: '#e0e0e0',
+        fontSize: '0.85rem',
+    },
+    button: {
+        padding: '0.5rem 1rem',
+        background: 'linear-gradient(135deg, #9b59b6, #3498db)',
+        border: 'none',
+        borderRadius: '4px',
+        color: 'white',
+        cursor: 'pointer',
+    },
+    error: {
+        margin: '1rem 2rem',
+        color: '#e74c3c',
+    },
+    main: {
+        padding: '1.5rem 2rem',
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '1.5rem',
+    },
+    summary: {
+        display: 'grid',
+        gridTemplateColumns: 'repeat(auto-fit, minmax(200px, 1fr))',
+        gap: '1rem',
+    },
+    stat: {
+        padding: '1rem',
+        backgroundColor: '#1a1a2e',
+        border: '1px solid #2a2a3a',
+        borderRadius: '8px',
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '0.25rem',
+    },
+    statValue: {
+        fontSize: '1.25rem',
+        fontWeight: 600,
+    },
+    panel: {
+        padding: '1rem',
+        backgroundColor: '#1a1a2e',
+        border: '1px solid #2a2a3a',
+        borderRadius: '8px',
+    },
+    panelHeader: {
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+    },
+    panelTitle: {
+        margin: '0 0 0.75rem',
+        fontSize: '1rem',
+    },
+    chart: {
+        height: '220px',
+        display: 'flex',
+        alignItems: 'flex-end',
+        gap: '2px',
+        marginTop: '0.75rem',
+        borderBottom: '1px solid #2a2a3a',
+    },
+    barSlot: {
+        position: 'relative',
+        flex: 1,
+        height: '100%',
+        display: 'flex',
+        alignItems: 'flex-end',
+        cursor: 'pointer',
+    },
+    bar: {
+        width: '100%',
+        borderRadius: '2px 2px 0 0',
+    },
+    expectedMark: {
+        position: 'absolute',
+        left: 0,
+        right: 0,
+        height: '2px',
+        backgroundColor: '#f1c40f',
+    },
+    providerRow: {
+        display: 'flex',
+        alignItems: 'center',
+        gap: '0.75rem',
+        marginBottom: '0.5rem',
+    },
+    providerName: {
+        width: '140px',
+        fontFamily: 'monospace',
+        fontSize: '0.85rem',
+    },
+    providerTrack: {
+        flex: 1,
+        height: '10px',
+        backgroundColor: '#0f0f1a',
+        borderRadius: '5px',
+        overflow: 'hidden',
+    },
+    providerBar: {
+        height: '100%',
+        background: 'linear-gradient(135deg, #9b59b6, #3498db)',
+    },
+    muted: {
+        color: '#888',
+        fontSize: '0.85rem',
+    },
+};
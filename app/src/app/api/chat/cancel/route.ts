@@ -0,0 +1,38 @@
+/**
+ * Chat Cancel API — Stop a running turn
+ *
+ * POST { turn_id } (the X-Chat-Turn-Id header of /api/chat).
+ * Aborts the model streams and any slot-machine wait; the turn's stream
+ * ends with an error event. Also accepts navigator.sendBeacon bodies.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { CancelChatTurnRequest } from '@/types';
+import { cancelChatTurn } from '@/lib/chatTurns';
+
+export async function POST(request: NextRequest) {
+    // Read as text: sendBeacon bodies may not carry a JSON content type
+    let body: CancelChatTurnRequest;
+    try {
+        body = JSON.parse(await request.text());
+    } catch {
+        return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    try {
+        if (!body?.turn_id || typeof body.turn_id !== 'string') {
+            return NextResponse.json({ error: 'turn_id is required' }, { status: 400 });
+        }
+
+        if (!cancelChatTurn(body.turn_id)) {
+            return NextResponse.json({ error: 'Turn not found or already finished' }, { status: 404 });
+        }
+        return NextResponse.json({ cancelled: true });
+    } catch (error) {
+        console.error('Chat cancel error:', error);
+        return NextResponse.json(
+            { error: 'Failed to cancel turn' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,41 @@
+/**
+ * Chat Harness API — Runs scripted conversations against /api/chat
+ *
+ * GET /api/chat/harness             Run every scenario
+ * GET /api/chat/harness?scenario=x  Run one scenario
+ *
+ * Uses the mock model fixtures (src/lib/models/mock.ts); not available in production.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ChatHarnessReport, ChatHarnessResult } from '@/types';
+import { CHAT_HARNESS_SCENARIOS, runChatHarnessScenario } from './scenarios';
+
+export async function GET(request: NextRequest) {
+    if (process.env.NODE_ENV === 'production') {
+        return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    const name = request.nextUrl.searchParams.get('scenario');
+    const scenarios = name ? CHAT_HARNESS_SCENARIOS.filter(s => s.name === name) : CHAT_HARNESS_SCENARIOS;
+    if (scenarios.length === 0) {
+        return NextResponse.json({ error: `Unknown scenario: ${name}` }, { status: 400 });
+    }
+
+    try {
+        // One at a time: scenarios share the server and its logs
+        const results: ChatHarnessResult[] = [];
+        for (const scenario of scenarios) {
+            results.push(await runChatHarnessScenario(request.nextUrl.origin, scenario));
+        }
+
+        const report: ChatHarnessReport = {
+            passed: results.every(r => r.passed),
+            results,
+        };
+        return NextResponse.json(report);
+    } catch (error) {
+        console.error('Chat harness error:', error);
+        return NextResponse.json({ error: 'Failed to run chat harness' }, { status: 500 });
+    }
+}
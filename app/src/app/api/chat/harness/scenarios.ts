@@ -0,0 +1,154 @@
+/**
+ * Chat Harness Scenarios — Scripted conversations against /api/chat
+ *
+ * Each scenario POSTs one user message with mock model fixtures and a draw
+ * seed, so no API keys or live entropy are needed, then checks the SSE event
+ * sequence and the text and tool results that came back.
+ */
+
+import { ChatHarnessResult, ChatStreamEvent, MockModelSelection } from '@/types';
+import { parseSSEMessage } from '@/lib/sse';
+import { MAX_TOOL_ITERATIONS } from '../tools';
+
+export interface ChatHarnessScenario {
+    name: string;
+    description: string;
+    message: string;
+    mockModels: MockModelSelection;
+    expectedEvents: ChatStreamEvent['type'][]; // Consecutive text events collapsed into one
+    expectText?: string[]; // Substrings of the streamed text
+    expectToolResults?: string[]; // Substrings of tool_result results, in order
+}
+
+const HARNESS_DRAW_SEED = 'chat-harness';
+const SCENARIO_TIMEOUT_MS = 30000;
+
+export const CHAT_HARNESS_SCENARIOS: ChatHarnessScenario[] = [
+    {
+        name: 'direct-reply',
+        description: 'Text only: no tools, then done',
+        message: 'What does The Star mean?',
+        mockModels: { conversation: 'direct-reply' },
+        expectedEvents: ['text', 'usage', 'done'],
+        expectText: ['The Star is a card of hope'],
+    },
+    {
+        name: 'draw-and-interpret',
+        description: 'draw_cards lays a spread, then request_interpretation hands off to thinking',
+        message: 'Should I take the new job?',
+        mockModels: { conversation: 'draw-and-interpret', thinking: 'interpretation' },
+        expectedEvents: [
+            'text',
+            'tool_call', 'draw_committed', 'spread_laid', 'tool_result',
+            'tool_call', 'text', 'reading_interpreted', 'usage', 'done',
+        ],
+        expectText: ['Let me lay a Two Paths spread', '**The first path** asks for courage'],
+    },
+    {
+        name: 'focused-positions',
+        description: 'A rejected interpret_positions call does not block the corrected one in the same response',
+        message: 'What does the outcome mean for my job?',
+        mockModels: { conversation: 'draw-and-focus', thinking: 'interpretation' },
+        expectedEvents: [
+            'text',
+            'tool_call', 'draw_committed', 'spread_laid', 'tool_result',
+            'tool_call', 'tool_result',
+            'tool_call', 'text', 'positions_interpreted', 'usage', 'done',
+        ],
+        expectToolResults: ['Two Paths', 'No card at position 12'],
+    },
+    {
+        name: 'duplicate-interpretation',
+        description: 'A second request_interpretation in the same response is blocked',
+        message: 'Interpret my cards',
+        mockModels: { conversation: 'duplicate-interpretation' },
+        expectedEvents: ['tool_call', 'tool_result', 'tool_call', 'tool_result', 'text', 'usage', 'done'],
+        expectToolResults: ['No spread has been laid yet', 'Interpretation already provided.'],
+    },
+    {
+        name: 'tool-loop',
+        description: `A model that never stops calling tools is cut off after ${MAX_TOOL_ITERATIONS} iterations`,
+        message: 'Which spreads are there?',
+        mockModels: { conversation: 'tool-loop' },
+        expectedEvents: [
+            ...Array.from({ length: MAX_TOOL_ITERATIONS }, () => ['tool_call', 'tool_result'] as const).flat(),
+            'usage', 'done',
+        ],
+    },
+];
+
+/**
+ * Read an SSE response body to the end
+ */
+async function readEvents(response: Response): Promise<ChatStreamEvent[]> {
+    const body = await response.text();
+    return body
+        .split('\n\n')
+        .flatMap(block => parseSSEMessage(block) ?? [])
+        .map(message => message.event);
+}
+
+/**
+ * Run one scenario against the chat endpoint at `origin`
+ */
+export async function runChatHarnessScenario(origin: string, scenario: ChatHarnessScenario): Promise<ChatHarnessResult> {
+    const result: ChatHarnessResult = {
+        name: scenario.name,
+        description: scenario.description,
+        passed: false,
+        events: [],
+        expected: scenario.expectedEvents,
+        errors: [],
+    };
+
+    let events: ChatStreamEvent[];
+    try {
+        const response = await fetch(`${origin}/api/chat`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                messages: [{ role: 'user', content: scenario.message }],
+                drawSeed: HARNESS_DRAW_SEED,
+                mockModels: scenario.mockModels,
+            }),
+            signal: AbortSignal.timeout(SCENARIO_TIMEOUT_MS),
+        });
+        if (!response.ok) {
+            const data = await response.json().catch(() => ({}));
+            result.errors.push(`HTTP ${response.status}: ${data.error ?? 'request failed'}`);
+            return result;
+        }
+        events = await readEvents(response);
+    } catch (error) {
+        result.errors.push(error instanceof Error ? error.message : 'Request failed');
+        return result;
+    }
+
+    for (const event of events) {
+        if (event.type === 'text' && result.events[result.events.length - 1] === 'text') continue;
+        result.events.push(event.type);
+    }
+
+    if (result.events.join(',') !== scenario.expectedEvents.join(',')) {
+        result.errors.push('Event sequence does not match');
+    }
+
+    for (const event of events) {
+        if (event.type === 'error') result.errors.push(`Stream error: ${event.message}`);
+    }
+
+    const text = events.map(event => event.type === 'text' ? event.content : '').join('');
+    for (const expected of scenario.expectText ?? []) {
+        if (!text.includes(expected)) result.errors.push(`Text is missing "${expected}"`);
+    }
+
+    const toolResults = events.flatMap(event => event.type === 'tool_result' ? [String(event.result)] : []);
+    (scenario.expectToolResults ?? []).forEach((expected, i) => {
+        if (!toolResults[i]?.includes(expected)) {
+            result.errors.push(`Tool result ${i + 1} is missing "${expected}"`);
+        }
+    });
+
+    result.passed = result.errors.length === 0;
+    return result;
+}
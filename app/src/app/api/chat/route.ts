@@ -2,121 +2,87 @@
  * Chat API — Streaming chat endpoint with tool orchestration
  * 
  * Implements the dual-model architecture from spec/ai-architecture.md:
- * - Conversation model (Claude Haiku 4.5) for fast responses and tool calls
- * - Thinking model (GPT 5.2 Thinking) for deep interpretations (via request_interpretation tool)
+ * - Conversation model (Claude Haiku 4.5 by default) for fast responses and tool calls
+ * - Thinking model (GPT 5.2 Thinking by default) for deep interpretations (via request_interpretation tool)
+ * Providers and models per role come from src/config/models.ts.
  */
 
 import { NextRequest } from 'next/server';
-import Anthropic from '@anthropic-ai/sdk';
-import OpenAI from 'openai';
-import { MINI_SYSTEM_PROMPT } from '@/prompts/mini-system';
-import { ChatRequest, SpreadWithCards, SpreadLedgerEntry } from '@/types';
+import { getPrompt } from '@/prompts/registry';
+import { AiInterpretationResult, ChatRequest, MockModelSelection, SpreadWithCards, SpreadLedgerEntry, CardPoolFilter, ClarifierKind } from '@/types';
 import {
     executeListSpreads,
     executeDrawCards,
+    executeDrawClarifier,
     formatSpreadForAI,
     formatLedgerForAI,
     createLedgerEntry,
+    resolvePositionFocus,
+    ToolExecutionContext,
+    TOOL_DEFINITIONS,
+    MAX_TOOL_ITERATIONS,
 } from './tools';
-import { requestThinkingInterpretation, InterpretationContext } from './thinking';
+import { requestPositionInterpretation, requestThinkingInterpretation, resolveInterpretationDepth, InterpretationContext } from './thinking';
 import { getAllCards } from '@/services/cardService';
+import { fromSpreadWithCards } from '@/services/readingService';
+import { waitForSlotMachineDraw } from '@/lib/rng/slotMachine';
 import * as logger from '@/lib/chatLogger';
-import { getOpenAIKey } from '@/lib/envHelper';
-
-// ─────────────────────────────────────────────────────────────────────────────
-// Clients
-// ─────────────────────────────────────────────────────────────────────────────
-
-const anthropic = new Anthropic({
-    apiKey: process.env.ANTHROPIC_API_KEY,
-});
-
-
-
-// Keep OpenAI for thinking model
-const openai = new OpenAI({
-    apiKey: getOpenAIKey(),
-});
-
-// ─────────────────────────────────────────────────────────────────────────────
-// Claude Tool Definitions
-// ─────────────────────────────────────────────────────────────────────────────
-
-const CLAUDE_TOOLS: Anthropic.Tool[] = [
-    {
-        name: 'list_spreads',
-        description: 'List available spreads with their purpose and position meanings. Use this to choose an appropriate spread for the user\'s question.',
-        input_schema: {
-            type: 'object',
-            properties: {},
-            required: [],
-        },
-    },
-    {
-        name: 'draw_cards',
-        description: 'Lay a spread by drawing cards. For built-in spreads, provide spread_slug. For custom spreads, provide custom_positions array.',
-        input_schema: {
-            type: 'object',
-            properties: {
-                spread_slug: {
-                    type: 'string',
-                    description: 'Slug of built-in spread (e.g., \'diamond_spread\', \'two_paths\', \'energy_mix\', \'blockage\')',
-                },
-                custom_positions: {
-                    type: 'array',
-                    items: { type: 'string' },
-                    description: 'For custom spreads: array of position meanings',
-                },
-                question: {
-                    type: 'string',
-                    description: 'The user\'s question for this reading',
-                },
-            },
-            required: ['question'],
-        },
-    },
-    {
-        name: 'request_interpretation',
-        description: 'Hand off to deeper intelligence for interpretation or complex reasoning. Once called, thinking will respond directly to the user and your turn ends. Call this after laying a spread, or when the user asks a complex question that benefits from deeper analysis.',
-        input_schema: {
-            type: 'object',
-            properties: {},
-            required: [],
-        },
-    },
-];
+import { createChatTurn, formatChatTurnEvent, parseChatTurnEventId, subscribeToChatTurn } from '@/lib/chatTurns';
+import { getChatModel, getChatModelError } from '@/lib/models/registry';
+import { addModelCall, createUsageSummary, getSessionUsage, ModelCall, recordSessionUsage } from '@/services/usageService';
+import { ChatModelMessage, ChatToolCall } from '@/lib/models/providers';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // SSE Helpers
 // ─────────────────────────────────────────────────────────────────────────────
 
-function createSSEStream() {
+/**
+ * SSE stream of a buffered turn, starting after `afterSeq`
+ * Closing the stream only detaches this client; the turn keeps running (see chatTurns.ts).
+ */
+function createTurnStream(turnId: string, afterSeq: number): ReadableStream<Uint8Array> | null {
     const encoder = new TextEncoder();
-    let controller: ReadableStreamDefaultController<Uint8Array>;
+    let unsubscribe: (() => void) | null = null;
 
     const stream = new ReadableStream<Uint8Array>({
-        start(c) {
-            controller = c;
+        start(controller) {
+            unsubscribe = subscribeToChatTurn(
+                turnId,
+                afterSeq,
+                event => {
+                    try {
+                        controller.enqueue(encoder.encode(formatChatTurnEvent(turnId, event)));
+                    } catch {
+                        // Stream may be closed
+                    }
+                },
+                () => {
+                    try {
+                        controller.close();
+                    } catch {
+                        // Already closed
+                    }
+                }
+            );
+        },
+        // Client disconnected or aborted the fetch
+        cancel() {
+            unsubscribe?.();
         },
     });
 
-    const send = (event: Record<string, unknown>) => {
-        try {
-            controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
-        } catch {
-            // Stream may be closed
-        }
-    };
-
-    const close = () => {
-        try {
-            controller.close();
-        } catch {
-            // Already closed
-        }
-    };
+    return unsubscribe ? stream : null;
+}
 
-    return { stream, send, close };
+function sseResponse(stream: ReadableStream<Uint8Array>, turnId: string): Response {
+    return new Response(stream, {
+        headers: {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            'Connection': 'keep-alive',
+            'X-Chat-Turn-Id': turnId,
+        },
+    });
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -124,14 +90,6 @@ function createSSEStream() {
 // ─────────────────────────────────────────────────────────────────────────────
 
 export async function POST(request: NextRequest) {
-    // Validate API keys
-    if (!process.env.ANTHROPIC_API_KEY) {
-        return new Response(
-            JSON.stringify({ error: 'Anthropic API key not configured' }),
-            { status: 500, headers: { 'Content-Type': 'application/json' } }
-        );
-    }
-
     let body: ChatRequest;
     try {
         body = await request.json();
@@ -142,7 +100,28 @@ export async function POST(request: NextRequest) {
         );
     }
 
-    const { messages, activeSpread, spreadLedger, conversationSummary } = body;
+    const { messages, activeSpread, spreadLedger, conversationSummary, drawSeed, sessionId, preferences, mockModels } = body;
+
+    // Validate requested mock fixtures
+    for (const role of ['conversation', 'thinking'] as const) {
+        const fixture = mockModels?.[role];
+        const mockError = fixture ? getChatModelError(role, fixture) : null;
+        if (mockError) {
+            return new Response(
+                JSON.stringify({ error: mockError }),
+                { status: 400, headers: { 'Content-Type': 'application/json' } }
+            );
+        }
+    }
+
+    // Validate the conversation model's config
+    const modelError = getChatModelError('conversation', mockModels?.conversation);
+    if (modelError) {
+        return new Response(
+            JSON.stringify({ error: modelError }),
+            { status: 500, headers: { 'Content-Type': 'application/json' } }
+        );
+    }
 
     if (!messages || messages.length === 0) {
         return new Response(
@@ -151,32 +130,63 @@ export async function POST(request: NextRequest) {
         );
     }
 
-    // Create SSE stream
-    const { stream, send, close } = createSSEStream();
+    // Buffer the turn so a dropped stream can resume; cancelChatTurn aborts the model streams
+    const turn = createChatTurn();
 
     // Process chat in background
-    processChat(messages, activeSpread, spreadLedger, conversationSummary, send, close);
+    processChat(
+        messages,
+        activeSpread,
+        spreadLedger,
+        conversationSummary,
+        { drawSeed, sessionId, preferences },
+        mockModels,
+        turn.signal,
+        turn.send,
+        turn.finish
+    );
+
+    return sseResponse(createTurnStream(turn.id, 0)!, turn.id);
+}
 
-    return new Response(stream, {
-        headers: {
-            'Content-Type': 'text/event-stream',
-            'Cache-Control': 'no-cache',
-            'Connection': 'keep-alive',
-        },
-    });
+/**
+ * Resume a turn's stream after a dropped connection
+ * Send Last-Event-ID (or ?last_event_id=) with the id of the last event received.
+ */
+export async function GET(request: NextRequest) {
+    const lastEventId = parseChatTurnEventId(
+        request.headers.get('last-event-id') ?? request.nextUrl.searchParams.get('last_event_id')
+    );
+    if (!lastEventId) {
+        return new Response(
+            JSON.stringify({ error: 'Last-Event-ID must be <turn id>:<seq>' }),
+            { status: 400, headers: { 'Content-Type': 'application/json' } }
+        );
+    }
+
+    const stream = createTurnStream(lastEventId.turnId, lastEventId.seq);
+    if (!stream) {
+        return new Response(
+            JSON.stringify({ error: 'Turn not found or expired' }),
+            { status: 404, headers: { 'Content-Type': 'application/json' } }
+        );
+    }
+
+    return sseResponse(stream, lastEventId.turnId);
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
-// Chat Processing with Claude
+// Chat Processing with the Conversation Model
 // ─────────────────────────────────────────────────────────────────────────────
 
-type ClaudeMessage = Anthropic.MessageParam;
-
 async function processChat(
     messages: Array<{ role: 'user' | 'assistant'; content: string }>,
     activeSpread: SpreadWithCards | undefined,
     spreadLedger: SpreadLedgerEntry[] | undefined,
     conversationSummary: string | undefined,
+    drawContext: Pick<ToolExecutionContext, 'drawSeed' | 'sessionId' | 'preferences'>,
+    mockModels: MockModelSelection | undefined,
+    signal: AbortSignal,
     send: (event: Record<string, unknown>) => void,
     close: () => void
 ) {
@@ -184,6 +194,18 @@ async function processChat(
     let totalToolCalls = 0;
     let thinkingCalls = 0;
 
+    // Token usage of this turn, also added to the chat session's totals
+    const turnUsage = createUsageSummary();
+    const recordUsage = (call: ModelCall) => {
+        addModelCall(turnUsage, call);
+        if (drawContext.sessionId) recordSessionUsage(drawContext.sessionId, call);
+    };
+    const sendUsage = () => {
+        const session = drawContext.sessionId ? getSessionUsage(drawContext.sessionId) : null;
+        send({ type: 'usage', turn: turnUsage, ...(session && { session }) });
+        logger.logUsage(turnUsage);
+    };
+
     try {
         // Log session start
         logger.logSessionStart(sessionId, messages.length);
@@ -200,7 +222,9 @@ async function processChat(
         }
 
         // Build system message with context
-        let systemContent = MINI_SYSTEM_PROMPT;
+        const prompt = getPrompt('mini-system', { sessionId: drawContext.sessionId });
+        logger.logPrompt('mini', prompt);
+        let systemContent = prompt.text;
 
         // Add conversation summary if present (compressed older messages)
         if (conversationSummary) {
@@ -217,8 +241,9 @@ async function processChat(
             systemContent += '\n\n---\n\n' + formatLedgerForAI(spreadLedger);
         }
 
-        // Build conversation history for Claude
-        const claudeMessages: ClaudeMessage[] = messages.map(m => ({
+        // Build conversation history for the conversation model
+        const { provider, config } = getChatModel('conversation', mockModels?.conversation);
+        const chatMessages: ChatModelMessage[] = messages.map(m => ({
             role: m.role,
             content: m.content,
         }));
@@ -226,72 +251,65 @@ async function processChat(
         // State for tool loop
         let currentActiveSpread = activeSpread;
         let currentLedger = spreadLedger || [];
-        const maxToolIterations = 5;
         let toolIterations = 0;
 
         // Tool execution loop
-        while (toolIterations < maxToolIterations) {
+        while (toolIterations < MAX_TOOL_ITERATIONS) {
+            signal.throwIfAborted();
             toolIterations++;
             logger.logMiniCall(`Iteration ${toolIterations}`);
 
-            // Log context sent to Claude (first iteration only)
+            // Log context sent to the model (first iteration only)
             if (toolIterations === 1) {
-                logger.logModelContext('claude-haiku', {
+                logger.logModelContext('mini', {
                     systemPrompt: systemContent,
-                    messages: claudeMessages,
+                    messages: chatMessages,
                     conversationSummary,
                     ledger: currentLedger,
                 });
             }
 
             const apiCallStart = Date.now();
-            console.log(`\n[API CALL - CLAUDE HAIKU 4.5 - Iteration ${toolIterations}]`);
+            console.log(`\n[API CALL - CONVERSATION ${provider.name}/${config.model} - Iteration ${toolIterations}]`);
 
-            // Call Claude with streaming
-            const stream = anthropic.messages.stream({
-                model: 'claude-haiku-4-5-20251001',
-                max_tokens: 2000,
+            // Call the conversation model with streaming
+            const stream = provider.stream({
+                model: config.model,
                 system: systemContent,
-                messages: claudeMessages,
-                tools: CLAUDE_TOOLS,
+                messages: chatMessages,
+                tools: TOOL_DEFINITIONS,
+                maxTokens: config.maxTokens,
+                temperature: config.temperature,
+                signal,
             });
 
             // Accumulate the response
             let assistantContent = '';
-            let toolUseBlocks: Array<{
-                id: string;
-                name: string;
-                input: Record<string, unknown>;
-            }> = [];
+            const toolUseBlocks: ChatToolCall[] = [];
             let firstTokenTime: number | null = null;
 
             // Process the stream
             for await (const event of stream) {
                 // Log time to first token
-                if (firstTokenTime === null && event.type === 'content_block_start') {
+                if (firstTokenTime === null) {
                     firstTokenTime = Date.now();
                     const ttft = firstTokenTime - apiCallStart;
-                    console.log(`[TIMING] Model: claude-haiku-4-5 | Time to first token: ${ttft}ms`);
+                    console.log(`[TIMING] Model: ${config.model} | Time to first token: ${ttft}ms`);
                 }
 
                 // Handle text content
-                if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
-                    assistantContent += event.delta.text;
-                    send({ type: 'text', content: event.delta.text });
+                if (event.type === 'text') {
+                    assistantContent += event.text;
+                    send({ type: 'text', content: event.text });
                 }
 
-                // Handle tool use blocks from final message
-                if (event.type === 'message_stop') {
-                    const finalMessage = await stream.finalMessage();
-                    for (const block of finalMessage.content) {
-                        if (block.type === 'tool_use') {
-                            toolUseBlocks.push({
-                                id: block.id,
-                                name: block.name,
-                                input: block.input as Record<string, unknown>,
-                            });
-                        }
-                    }
+                // Tool calls arrive once the response is complete
+                if (event.type === 'tool_call') {
+                    toolUseBlocks.push(event.toolCall);
+                }
+
+                if (event.type === 'usage') {
+                    recordUsage({ role: 'conversation', provider: provider.name, model: config.model, usage: event.usage });
                 }
             }
 
@@ -309,24 +327,24 @@ async function processChat(
             }
 
             // Add assistant message with tool use to history
-            const assistantMessage: ClaudeMessage = {
+            chatMessages.push({
                 role: 'assistant',
-                content: (await stream.finalMessage()).content,
-            };
-            claudeMessages.push(assistantMessage);
+                content: assistantContent,
+                toolCalls: toolUseBlocks,
+            });
 
             // Execute each tool call and collect results
-            const toolResults: Array<{ type: 'tool_result'; tool_use_id: string; content: string }> = [];
+            const toolResults: ChatModelMessage[] = [];
             let hasCalledInterpretation = false;
 
             for (const toolUse of toolUseBlocks) {
-                logger.logToolCall(toolUse.name, toolUse.input);
+                logger.logToolCall(toolUse.name, toolUse.arguments);
 
                 send({
                     type: 'tool_call',
                     id: toolUse.id,
                     name: toolUse.name,
-                    arguments: toolUse.input,
+                    arguments: toolUse.arguments,
                 });
 
                 let toolResult: string;
@@ -341,12 +359,24 @@ async function processChat(
                         }
 
                         case 'draw_cards': {
-                            const args = toolUse.input as {
+                            const args = toolUse.arguments as {
                                 spread_slug?: string;
                                 custom_positions?: string[];
                                 question: string;
+                                card_pool?: CardPoolFilter;
                             };
-                            const result = await executeDrawCards(args);
+                            const result = await executeDrawCards(args, {
+                                onSlotMachineRequired: (pending) => {
+                                    send({ type: 'slot_machine_required', ...pending });
+                                    logger.logToolResult('draw_cards', false, `Remote entropy failed, waiting for ${pending.remaining} slot-machine taps`);
+                                    return waitForSlotMachineDraw(pending.draw_id, signal);
+                                },
+                                // Publish the commitment before the words become cards
+                                onDrawCommitted: ({ draw_id, commitment }) => {
+                                    send({ type: 'draw_committed', draw_id, commitment });
+                                },
+                                ...drawContext,
+                            });
                             if (result.success && result.reading && result.spreadWithCards) {
                                 currentActiveSpread = result.spreadWithCards;
 
@@ -365,6 +395,39 @@ async function processChat(
                             break;
                         }
 
+                        case 'draw_clarifier': {
+                            const args = toolUse.arguments as {
+                                position?: number;
+                                kind?: ClarifierKind;
+                            };
+                            const result = await executeDrawClarifier(args, {
+                                activeSpread: currentActiveSpread,
+                                onSlotMachineRequired: (pending) => {
+                                    send({ type: 'slot_machine_required', ...pending });
+                                    logger.logToolResult('draw_clarifier', false, `Remote entropy failed, waiting for ${pending.remaining} slot-machine taps`);
+                                    return waitForSlotMachineDraw(pending.draw_id, signal);
+                                },
+                                ...drawContext,
+                            });
+                            if (result.success && result.clarifier && result.spreadWithCards) {
+                                currentActiveSpread = result.spreadWithCards;
+
+                                send({
+                                    type: 'clarifier_drawn',
+                                    reading_id: result.spreadWithCards.reading_id,
+                                    clarifier: result.clarifier,
+                                    spreadWithCards: result.spreadWithCards,
+                                });
+
+                                toolResult = formatSpreadForAI(result.spreadWithCards);
+                                logger.logToolResult('draw_clarifier', true, `${result.clarifier.card.name} (${result.clarifier.kind})`);
+                            } else {
+                                toolResult = JSON.stringify({ error: result.error });
+                                logger.logToolResult('draw_clarifier', false, result.error || 'Unknown error');
+                            }
+                            break;
+                        }
+
                         case 'request_interpretation': {
                             // Prevent duplicate interpretation calls
                             if (hasCalledInterpretation) {
@@ -388,11 +451,21 @@ async function processChat(
                                 // Stream interpretation from thinking model
                                 send({ type: 'text', content: '\n\n' });
 
+                                let interpretationResult: AiInterpretationResult | undefined;
                                 const context: InterpretationContext = {
                                     activeSpread: currentActiveSpread,
+                                    depth: resolveInterpretationDepth(
+                                        toolUse.arguments.depth,
+                                        drawContext.preferences?.interpretationDepth
+                                    ),
                                     messages: messages.slice(-20),
                                     spreadLedger: currentLedger,
                                     conversationSummary,
+                                    mockFixture: mockModels?.thinking,
+                                    sessionId: drawContext.sessionId,
+                                    signal,
+                                    onUsage: recordUsage,
+                                    onInterpreted: result => { interpretationResult = result; },
                                 };
 
                                 let interpretation = '';
@@ -400,31 +473,29 @@ async function processChat(
                                     interpretation += chunk;
                                     send({ type: 'text', content: chunk });
                                 }
+                                signal.throwIfAborted();
+
+                                // Keep the interpretation with its reading (not the fallback text)
+                                if (interpretationResult) {
+                                    currentActiveSpread = { ...currentActiveSpread, ai: { ...currentActiveSpread.ai, one_shot: interpretationResult } };
+                                    send({
+                                        type: 'reading_interpreted',
+                                        reading_id: currentActiveSpread.reading_id,
+                                        interpretation: interpretationResult,
+                                    });
+                                }
 
                                 // Add to ledger for future context
                                 const allCards = getAllCards();
                                 if (currentActiveSpread) {
-                                    const reading = {
-                                        id: currentActiveSpread.reading_id,
-                                        created_at: new Date().toISOString(),
-                                        spread_id: currentActiveSpread.spread.source.spread_id,
-                                        spread_snapshot: currentActiveSpread.spread,
-                                        question: currentActiveSpread.question,
-                                        allow_duplicates: false,
-                                        allow_reversals: true,
-                                        cards: currentActiveSpread.cards.map(c => ({
-                                            position_index: c.position_index,
-                                            card_id: c.card.id,
-                                            reversed: c.reversed,
-                                        })),
-                                        rng: { method_used: 'fallback' as const, attempts: [] },
-                                    };
+                                    const reading = fromSpreadWithCards(currentActiveSpread);
                                     currentLedger = [...currentLedger, createLedgerEntry(reading, allCards)];
                                 }
 
                                 logger.logToolResult('request_interpretation', true, `${interpretation.length} chars from thinking`);
 
                                 // THINKING TAKES OVER - End the turn completely
+                                sendUsage();
                                 send({ type: 'done' });
                                 logger.logSessionEnd(totalToolCalls, thinkingCalls);
                                 close();
@@ -433,6 +504,73 @@ async function processChat(
                             break;
                         }
 
+                        case 'interpret_positions': {
+                            // Shares the one-handoff-per-response guard with request_interpretation
+                            if (hasCalledInterpretation) {
+                                toolResult = 'Interpretation already provided.';
+                                logger.logToolResult('interpret_positions', false, 'Duplicate call blocked');
+                                break;
+                            }
+
+                            const resolved = resolvePositionFocus(
+                                toolUse.arguments as { positions?: number[]; compare?: number[]; focus?: string },
+                                currentActiveSpread
+                            );
+                            if (!resolved.success || !resolved.focus || !currentActiveSpread) {
+                                // A rejected call leaves the guard open so the model can correct it
+                                const error = resolved.error ?? 'No spread has been laid yet. Draw cards first.';
+                                toolResult = `Error: ${error}`;
+                                logger.logToolResult('interpret_positions', false, error);
+                                break;
+                            }
+                            hasCalledInterpretation = true;
+                            const focus = resolved.focus;
+
+                            thinkingCalls++;
+                            logger.logThinkingHandoff(currentActiveSpread.spread.name, focus.focus);
+
+                            // Stream the focused interpretation from the thinking model
+                            send({ type: 'text', content: '\n\n' });
+
+                            let positionsResult: AiInterpretationResult | undefined;
+                            const positionsContext: Omit<InterpretationContext, 'depth'> = {
+                                activeSpread: currentActiveSpread,
+                                messages: messages.slice(-20),
+                                spreadLedger: currentLedger,
+                                conversationSummary,
+                                mockFixture: mockModels?.thinking,
+                                sessionId: drawContext.sessionId,
+                                signal,
+                                onUsage: recordUsage,
+                                onInterpreted: result => { positionsResult = result; },
+                            };
+
+                            let focusedText = '';
+                            for await (const chunk of requestPositionInterpretation(positionsContext, focus)) {
+                                focusedText += chunk;
+                                send({ type: 'text', content: chunk });
+                            }
+                            signal.throwIfAborted();
+
+                            // Keep it with its reading, linked to the positions it covers
+                            if (positionsResult) {
+                                send({
+                                    type: 'positions_interpreted',
+                                    reading_id: currentActiveSpread.reading_id,
+                                    interpretation: { ...positionsResult, ...focus },
+                                });
+                            }
+
+                            logger.logToolResult('interpret_positions', true, `${focusedText.length} chars from thinking`);
+
+                            // THINKING TAKES OVER - End the turn completely
+                            sendUsage();
+                            send({ type: 'done' });
+                            logger.logSessionEnd(totalToolCalls, thinkingCalls);
+                            close();
+                            return;
+                        }
+
                         default:
                             toolResult = `Unknown tool: ${toolUse.name}`;
                             logger.logToolResult(toolUse.name, false, 'Unknown tool');
@@ -445,24 +583,30 @@ async function processChat(
                 send({ type: 'tool_result', name: toolUse.name, result: toolResult });
 
                 toolResults.push({
-                    type: 'tool_result',
-                    tool_use_id: toolUse.id,
+                    role: 'tool',
+                    toolCallId: toolUse.id,
                     content: toolResult,
                 });
             }
 
             // Add tool results to conversation
-            claudeMessages.push({
-                role: 'user',
-                content: toolResults,
-            });
+            chatMessages.push(...toolResults);
         }
 
+        sendUsage();
         send({ type: 'done' });
         logger.logSessionEnd(totalToolCalls, thinkingCalls);
     } catch (error) {
+        // Stopped by the client: the partial text is already with them
+        if (signal.aborted) {
+            logger.logInterrupted('processChat');
+            logger.logSessionEnd(totalToolCalls, thinkingCalls);
+            return;
+        }
+
         console.error('Chat processing error:', error);
         logger.logError('processChat', error);
+        sendUsage();
         send({
             type: 'error',
             message: error instanceof Error ? error.message : 'Chat processing failed',
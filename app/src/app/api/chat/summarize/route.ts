@@ -2,16 +2,17 @@
  * Summarization API — Compresses older conversation history
  * 
  * Called client-side when messages exceed threshold.
- * Uses GPT 5.2 Thinking model for quality summarization.
+ * Uses the summarizer model (src/config/models.ts) for quality summarization.
  */
 
 import { NextRequest } from 'next/server';
 import { summarizeConversation } from '@/lib/summarization';
+import { recordSessionUsage } from '@/services/usageService';
 
 export async function POST(request: NextRequest) {
     try {
         const body = await request.json();
-        const { messages, existingSummary, threshold, keepRecent } = body;
+        const { messages, existingSummary, threshold, keepRecent, sessionId } = body;
 
         if (!messages || !Array.isArray(messages)) {
             return new Response(
@@ -34,6 +35,11 @@ export async function POST(request: NextRequest) {
             );
         }
 
+        // Counted in the session's totals, reported with the next chat turn
+        if (result.usage && typeof sessionId === 'string') {
+            recordSessionUsage(sessionId, result.usage);
+        }
+
         return new Response(
             JSON.stringify({
                 needsSummarization: true,
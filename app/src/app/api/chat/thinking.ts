@@ -9,10 +9,18 @@
  * Once called, mini's turn ends and thinking streams directly to user.
  */
 
-import OpenAI from 'openai';
-import { SpreadWithCards, SpreadLedgerEntry } from '@/types';
+import { v4 as uuidv4 } from 'uuid';
+import { AiDepth, AiInterpretationResult, PositionInterpretation, SpreadWithCards, SpreadLedgerEntry } from '@/types';
 import { formatSpreadForAI, formatLedgerForAI } from './tools';
-import { THINKING_SYSTEM_PROMPT } from '@/prompts/thinking-system';
+import { getPrompt, ResolvedPrompt } from '@/prompts/registry';
+import { THINKING_OUTPUT_FORMATS } from '@/prompts/thinking-system';
+import { estimateCredits } from '@/config/pricing';
+import { getChatModel } from '@/lib/models/registry';
+import { ChatModelMessage, ChatModelUsage } from '@/lib/models/providers';
+import { ModelCall } from '@/services/usageService';
+
+const DEFAULT_DEPTH: AiDepth = 'deep';
+const FOCUSED_DEPTH: AiDepth = 'medium'; // interpret_positions answers are 1-3 paragraphs
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Types
@@ -20,30 +28,44 @@ import { THINKING_SYSTEM_PROMPT } from '@/prompts/thinking-system';
 
 export interface InterpretationContext {
     activeSpread: SpreadWithCards;
+    depth: AiDepth;
     // Messages array - same as what mini receives
     messages: Array<{ role: 'user' | 'assistant'; content: string }>;
     spreadLedger?: SpreadLedgerEntry[];
     conversationSummary?: string;
+    mockFixture?: string; // Scripted thinking model (development and test only)
+    sessionId?: string; // Picks the session's prompt variant
+    signal?: AbortSignal; // Aborts the model stream when the client cancels
+    onUsage?: (call: ModelCall) => void; // Token usage, once the stream completes
+    onInterpreted?: (result: AiInterpretationResult) => void; // The model's full output; not called for the fallback
 }
 
+// Positions for interpret_positions, as resolved by resolvePositionFocus
+export type PositionFocus = Pick<PositionInterpretation, 'position_indexes' | 'compare' | 'focus'>;
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Thinking Model
 // ─────────────────────────────────────────────────────────────────────────────
 
-import { getOpenAIKey } from '@/lib/envHelper';
+/**
+ * Depth for an interpretation: the one the model asked for, else the user's default
+ */
+export function resolveInterpretationDepth(requested: unknown, userDefault?: unknown): AiDepth {
+    const isDepth = (value: unknown): value is AiDepth =>
+        typeof value === 'string' && Object.hasOwn(THINKING_OUTPUT_FORMATS, value);
 
-const openai = new OpenAI({
-    apiKey: getOpenAIKey(),
-});
+    if (isDepth(requested)) return requested;
+    return isDepth(userDefault) ? userDefault : DEFAULT_DEPTH;
+}
 
 /**
  * Build the system content for thinking model
  * Uses the SAME structure as mini's system content
  */
-function buildThinkingSystemContent(context: InterpretationContext): string {
+function buildThinkingSystemContent(context: InterpretationContext, prompt: ResolvedPrompt): string {
     const { activeSpread, spreadLedger, conversationSummary } = context;
 
-    let systemContent = THINKING_SYSTEM_PROMPT;
+    let systemContent = prompt.text;
 
     // Add conversation summary if present (compressed older messages)
     if (conversationSummary) {
@@ -70,17 +92,68 @@ function buildThinkingSystemContent(context: InterpretationContext): string {
 export async function* requestThinkingInterpretation(
     context: InterpretationContext
 ): AsyncGenerator<string, void, unknown> {
-    const systemContent = buildThinkingSystemContent(context);
+    const prompt = getPrompt('thinking-system', {
+        sessionId: context.sessionId,
+        variables: { output_format: THINKING_OUTPUT_FORMATS[context.depth] },
+    });
+
+    yield* streamInterpretation(context, prompt, context.activeSpread.cards);
+}
+
+/**
+ * Request a focused interpretation of some positions (interpret_positions)
+ * The whole spread stays in context; the prompt narrows the answer to the positions in focus.
+ */
+export async function* requestPositionInterpretation(
+    context: Omit<InterpretationContext, 'depth'>,
+    focus: PositionFocus
+): AsyncGenerator<string, void, unknown> {
+    const prompt = getPrompt('thinking-positions', {
+        sessionId: context.sessionId,
+        variables: {
+            positions: describeFocusPositions(context.activeSpread, focus),
+            focus: focus.focus,
+        },
+    });
+    const cards = context.activeSpread.cards.filter(c => focus.position_indexes.includes(c.position_index));
+
+    yield* streamInterpretation({ ...context, depth: FOCUSED_DEPTH }, prompt, cards);
+}
+
+/**
+ * List the positions in focus for the positions prompt
+ */
+function describeFocusPositions(spread: SpreadWithCards, focus: PositionFocus): string {
+    const lines = focus.position_indexes.map(index => {
+        const position = spread.spread.positions.find(p => p.index === index);
+        const drawn = spread.cards.find(c => c.position_index === index);
+        return `- Position ${index + 1} (${position?.meaning}): ${drawn?.card.name} (${drawn?.reversed ? 'Reversed' : 'Upright'})`;
+    });
+
+    if (focus.compare) {
+        lines.push('', `Compare position ${focus.compare[0] + 1} with position ${focus.compare[1] + 1}.`);
+    }
+    return lines.join('\n');
+}
+
+/**
+ * Stream the thinking model's answer to a resolved prompt
+ * Falls back to the meanings of `fallbackCards` if the model fails.
+ */
+async function* streamInterpretation(
+    context: InterpretationContext,
+    prompt: ResolvedPrompt,
+    fallbackCards: SpreadWithCards['cards']
+): AsyncGenerator<string, void, unknown> {
+    const systemContent = buildThinkingSystemContent(context, prompt);
 
     // Build messages array - same format as mini
-    // System message with all context, then conversation history
-    const thinkingMessages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }> = [
-        { role: 'system', content: systemContent },
-        ...context.messages.map(m => ({ role: m.role as 'user' | 'assistant', content: m.content })),
-    ];
+    // System content carries all context, then conversation history
+    const thinkingMessages: ChatModelMessage[] = context.messages.map(m => ({ role: m.role, content: m.content }));
 
     // Log context sent to thinking model
-    const { logModelContext } = await import('@/lib/chatLogger');
+    const { logModelContext, logPrompt } = await import('@/lib/chatLogger');
+    logPrompt('thinking', prompt);
     logModelContext('thinking', {
         systemPrompt: systemContent,
         messages: thinkingMessages,
@@ -90,43 +163,77 @@ export async function* requestThinkingInterpretation(
 
     try {
         const apiCallStart = Date.now();
+        const createdAt = new Date(apiCallStart).toISOString();
+        const { provider, config } = getChatModel('thinking', context.mockFixture);
+        // The depth sets length through the output format only: reasoning tokens count against
+        // max_completion_tokens, so a tighter per-depth cap can leave no room for the answer
+        const maxTokens = config.maxTokens;
 
         // Log the FULL API call payload
         console.log(`\n[API CALL - THINKING]`);
         console.log(JSON.stringify({
-            model: 'gpt-5.2',
+            provider: provider.name,
+            model: config.model,
+            system: systemContent,
             messages: thinkingMessages,
-            max_completion_tokens: 2000,
-            temperature: 0.7,
+            depth: context.depth,
+            max_tokens: maxTokens,
+            temperature: config.temperature,
         }, null, 2));
 
-        const stream = await openai.chat.completions.create({
-            model: 'gpt-5.2',
+        const stream = provider.stream({
+            model: config.model,
+            system: systemContent,
             messages: thinkingMessages,
-            stream: true,
-            max_completion_tokens: 2000,
-            temperature: 0.7,
+            maxTokens,
+            temperature: config.temperature,
+            signal: context.signal,
         });
 
         let firstTokenLogged = false;
-        for await (const chunk of stream) {
+        let outputText = '';
+        let usage: ChatModelUsage | undefined;
+        for await (const event of stream) {
             if (!firstTokenLogged) {
                 const ttft = Date.now() - apiCallStart;
-                console.log(`[TIMING] Model: gpt-5.2 | Time to first token: ${ttft}ms`);
+                console.log(`[TIMING] Model: ${config.model} | Time to first token: ${ttft}ms`);
                 firstTokenLogged = true;
             }
-            const content = chunk.choices[0]?.delta?.content;
-            if (content) {
-                yield content;
+            if (event.type === 'text') {
+                outputText += event.text;
+                yield event.text;
+            }
+            if (event.type === 'usage') {
+                usage = event.usage;
+                context.onUsage?.({ role: 'thinking', provider: provider.name, model: config.model, usage: event.usage });
             }
         }
+
+        const tokens = usage && { input_tokens: usage.inputTokens, output_tokens: usage.outputTokens };
+        context.onInterpreted?.({
+            id: uuidv4(),
+            created_at: createdAt,
+            depth: context.depth,
+            prompt_id: prompt.id,
+            prompt_version: prompt.version,
+            model: config.model,
+            output_text: outputText,
+            completed_at: new Date().toISOString(),
+            ...(tokens && {
+                usage: tokens,
+                cost_hint: { credits_estimated: estimateCredits(provider.name, config.model, tokens) },
+            }),
+        });
     } catch (error) {
+        // Cancelled by the client: nobody is listening for a fallback
+        if (context.signal?.aborted) return;
+
         console.error('Thinking model error:', error);
 
         // Fallback: provide a brief interpretation using the card data
         yield '\n\n*I sense some interference in my deeper connection, but let me share what I can see...*\n\n';
 
-        for (const { position_index, card, reversed } of context.activeSpread.cards) {
+        for (const { position_index, card, reversed } of fallbackCards) {
             const position = context.activeSpread.spread.positions.find(p => p.index === position_index);
             const orientation = reversed ? 'Reversed' : 'Upright';
             const meaning = reversed ? card.meaning_reversed : card.meaning;
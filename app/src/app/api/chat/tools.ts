@@ -4,74 +4,148 @@
  * Tools:
  * - list_spreads: Returns available spreads (ephemeral)
  * - draw_cards: Draws cards via RNG cascade
+ * - draw_clarifier: Adds one card to the active spread
+ * - interpret_positions: Invokes thinking model for a follow-up on some positions
  * - request_interpretation: Invokes thinking model for deep interpretation
  */
 
-import { v4 as uuidv4 } from 'uuid';
-import { getSystemSpreads, createSpreadSnapshot, getSpreadBySlug } from '@/services/spreadService';
-import { getAllCards, getCardById } from '@/services/cardService';
+import { getSystemSpreads } from '@/services/spreadService';
+import { describeCardPool, resolveCardPool } from '@/services/cardService';
+import { resolveSpreadSelection, createReading, toSpreadWithCards } from '@/services/readingService';
+import { DrawHooks, drawCards } from '@/services/rngService';
+import { dealFromSessionDeck } from '@/services/deckService';
+import { drawClarifier } from '@/services/clarifierService';
+import { getReversalPolicy } from '@/domain/rngMapping';
 import {
     Reading,
     ReadingCard,
     SpreadWithCards,
     SpreadLedgerEntry,
     Card,
-    RngProvenance
+    DrawResponse,
+    CardPoolFilter,
+    ReadingPreferences,
+    SlotMachinePending,
+    SpreadClarifier,
+    ClarifierKind,
+    PositionInterpretation,
+    ReversalPolicy
 } from '@/types';
+import { ChatToolDefinition } from '@/lib/models/providers';
 
 // ─────────────────────────────────────────────────────────────────────────────
-// Tool Definitions (for OpenAI function calling)
+// Tool Definitions (provider-neutral, see src/lib/models)
 // ─────────────────────────────────────────────────────────────────────────────
 
-export const TOOL_DEFINITIONS = [
+/** Model responses with tool calls allowed per chat turn before it is cut off */
+export const MAX_TOOL_ITERATIONS = 5;
+
+export const TOOL_DEFINITIONS: ChatToolDefinition[] = [
     {
-        type: 'function' as const,
-        function: {
-            name: 'list_spreads',
-            description: 'List available spreads with their purpose and position meanings. Use this to choose an appropriate spread for the user\'s question.',
-            parameters: {
-                type: 'object',
-                properties: {},
-                required: [],
-            },
+        name: 'list_spreads',
+        description: 'List available spreads with their purpose and position meanings. Use this to choose an appropriate spread for the user\'s question.',
+        parameters: {
+            type: 'object',
+            properties: {},
+            required: [],
         },
     },
     {
-        type: 'function' as const,
-        function: {
-            name: 'draw_cards',
-            description: 'Lay a spread by drawing cards. For built-in spreads, provide spread_slug. For custom spreads, provide custom_positions array.',
-            parameters: {
-                type: 'object',
-                properties: {
-                    spread_slug: {
-                        type: 'string',
-                        description: 'Slug of built-in spread (e.g., \'diamond_spread\', \'two_paths\', \'energy_mix\', \'blockage\')',
-                    },
-                    custom_positions: {
-                        type: 'array',
-                        items: { type: 'string' },
-                        description: 'For custom spreads: array of position meanings',
-                    },
-                    question: {
-                        type: 'string',
-                        description: 'The user\'s question for this reading',
+        name: 'draw_cards',
+        description: 'Lay a spread by drawing cards. For built-in spreads, provide spread_slug. For custom spreads, provide custom_positions array.',
+        parameters: {
+            type: 'object',
+            properties: {
+                spread_slug: {
+                    type: 'string',
+                    description: 'Slug of built-in spread (e.g., \'diamond_spread\', \'two_paths\', \'energy_mix\', \'blockage\')',
+                },
+                custom_positions: {
+                    type: 'array',
+                    items: { type: 'string' },
+                    description: 'For custom spreads: array of position meanings',
+                },
+                question: {
+                    type: 'string',
+                    description: 'The user\'s question for this reading',
+                },
+                card_pool: {
+                    type: 'object',
+                    description: 'Optional: draw only from part of the deck (criteria combine). E.g. { arcana: \'major\' } for majors only, { suits: [\'cups\'] } for a single suit, or { card_ids: [...] } for a custom pool.',
+                    properties: {
+                        arcana: { type: 'string', enum: ['major', 'minor'] },
+                        suits: {
+                            type: 'array',
+                            items: { type: 'string', enum: ['wands', 'cups', 'swords', 'pentacles'] },
+                        },
+                        card_ids: {
+                            type: 'array',
+                            items: { type: 'integer', minimum: 0, maximum: 77 },
+                        },
                     },
                 },
-                required: ['question'],
             },
+            required: ['question'],
         },
     },
     {
-        type: 'function' as const,
-        function: {
-            name: 'request_interpretation',
-            description: 'Hand off to deeper intelligence for interpretation or complex reasoning. Once called, thinking will respond directly to the user and your turn ends. Call this after laying a spread, or when the user asks a complex question that benefits from deeper analysis.',
-            parameters: {
-                type: 'object',
-                properties: {},
-                required: [],
+        name: 'draw_clarifier',
+        description: 'Draw one more card onto the current spread, from the cards not already on the table. Attach it to a position to clarify that card, or omit position for the whole spread. Use kind \'shadow\' for a shadow card (what lies hidden beneath).',
+        parameters: {
+            type: 'object',
+            properties: {
+                position: {
+                    type: 'integer',
+                    description: 'Position number (1-based, as in the spread listing). Omit for the whole spread.',
+                },
+                kind: {
+                    type: 'string',
+                    enum: ['clarifier', 'shadow'],
+                    description: 'Default \'clarifier\'',
+                },
             },
+            required: [],
+        },
+    },
+    {
+        name: 'interpret_positions',
+        description: 'Hand off a follow-up about particular cards of the current spread to deeper intelligence, e.g. what the Outcome card means for the user\'s job, or how two cards relate. Once called, thinking will respond directly to the user and your turn ends. Use this instead of request_interpretation when the spread has already been interpreted.',
+        parameters: {
+            type: 'object',
+            properties: {
+                positions: {
+                    type: 'array',
+                    items: { type: 'integer', minimum: 1 },
+                    description: 'Position numbers (1-based, as in the spread listing) to interpret',
+                },
+                compare: {
+                    type: 'array',
+                    items: { type: 'integer', minimum: 1 },
+                    minItems: 2,
+                    maxItems: 2,
+                    description: 'Optional: two position numbers to read against each other',
+                },
+                focus: {
+                    type: 'string',
+                    description: 'The user\'s question about these cards',
+                },
+            },
+            required: ['focus'],
+        },
+    },
+    {
+        name: 'request_interpretation',
+        description: 'Hand off to deeper intelligence for interpretation or complex reasoning. Once called, thinking will respond directly to the user and your turn ends. Call this after laying a spread, or when the user asks a complex question that benefits from deeper analysis.',
+        parameters: {
+            type: 'object',
+            properties: {
+                depth: {
+                    type: 'string',
+                    enum: ['short', 'medium', 'deep'],
+                    description: 'How long the interpretation should be: short = a direct answer in one paragraph (quick or yes/no questions), medium = a sentence or two per card and a summary, deep = a full card-by-card reading. Omit to use the user\'s default.',
+                },
+            },
+            required: [],
         },
     },
 ];
@@ -84,6 +158,15 @@ export interface ToolExecutionContext {
     activeSpread?: SpreadWithCards;
     spreadLedger?: SpreadLedgerEntry[];
     conversationContext?: string;
+    // Called when remote entropy fails; resolves once the user finishes the slot-machine draw
+    onSlotMachineRequired?: (pending: SlotMachinePending) => Promise<DrawResponse>;
+    // Called with a draw's commitment before its words are mapped to cards
+    onDrawCommitted?: DrawHooks['onCommitted'];
+    // Deterministic draws for replay and testing (development and test only)
+    drawSeed?: string;
+    // Client session (keys the shuffle-mode deck) and the user's reading options
+    sessionId?: string;
+    preferences?: ReadingPreferences;
 }
 
 export interface ListSpreadsResult {
@@ -96,6 +179,19 @@ export interface ListSpreadsResult {
     }>;
 }
 
+export interface DrawClarifierResult {
+    success: boolean;
+    clarifier?: SpreadClarifier;
+    spreadWithCards?: SpreadWithCards;
+    error?: string;
+}
+
+export interface PositionFocusResult {
+    success: boolean;
+    focus?: Pick<PositionInterpretation, 'position_indexes' | 'compare' | 'focus'>;
+    error?: string;
+}
+
 export interface DrawCardsResult {
     success: boolean;
     reading?: Reading;
@@ -125,120 +221,93 @@ export function executeListSpreads(): ListSpreadsResult {
  * Execute draw_cards tool
  * Draws cards via RNG cascade and creates a reading
  */
-export async function executeDrawCards(args: {
-    spread_slug?: string;
-    custom_positions?: string[];
-    question: string;
-}): Promise<DrawCardsResult> {
-    const { spread_slug, custom_positions, question } = args;
+export async function executeDrawCards(
+    args: {
+        spread_slug?: string;
+        custom_positions?: string[];
+        question: string;
+        card_pool?: CardPoolFilter;
+    },
+    context: ToolExecutionContext = {}
+): Promise<DrawCardsResult> {
+    const { spread_slug, custom_positions, question, card_pool } = args;
 
     // Determine spread to use
-    let spreadName: string;
-    let spreadPurpose: string;
-    let positions: Array<{ index: number; meaning: string }>;
-    let layoutDescriptor: string;
-    let spreadId: string;
-
-    if (spread_slug) {
-        // Use built-in spread
-        const spread = getSpreadBySlug(spread_slug);
-        if (!spread) {
-            return {
-                success: false,
-                error: `Unknown spread: ${spread_slug}. Available spreads: ${getSystemSpreads().map(s => s.slug).join(', ')}`
-            };
-        }
-        spreadName = spread.name;
-        spreadPurpose = spread.purpose;
-        positions = spread.positions;
-        layoutDescriptor = spread.layout_descriptor;
-        spreadId = spread.id;
-    } else if (custom_positions && custom_positions.length > 0) {
-        // Create custom spread
-        spreadName = 'Custom Spread';
-        spreadPurpose = 'A custom spread created for this reading';
-        positions = custom_positions.map((meaning, index) => ({ index, meaning }));
-        layoutDescriptor = positions.map((_, i) => i + 1).join(' '); // Simple row layout
-        spreadId = 'custom_' + uuidv4();
-    } else {
-        return {
-            success: false,
-            error: 'Must provide either spread_slug or custom_positions'
-        };
+    const selection = resolveSpreadSelection({ spread_slug, custom_positions });
+    if (!selection.success) {
+        return { success: false, error: selection.error };
     }
-
-    const nCards = positions.length;
+    const { snapshot } = selection;
 
     try {
-        // Draw cards via RNG API
-        const drawResponse = await fetch(`${process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000'}/api/rng/draw`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-                n: nCards,
-                allowDuplicates: false,
-                allowReversals: true,
-            }),
+        const allowDuplicates = context.preferences?.allowDuplicates ?? false;
+        // The session deck is always the full deck, so filtered draws use the RNG engine
+        const dealFromDeck = context.preferences?.drawMode === 'shuffle' && Boolean(context.sessionId)
+            && !context.drawSeed && !card_pool;
+        // Jumpers only exist in the shuffled deck; the RNG engine draws those readings upright
+        let reversalPolicy = getReversalPolicy({
+            allowReversals: context.preferences?.allowReversals ?? true,
+            reversalPolicy: context.preferences?.reversalPolicy,
         });
+        if (reversalPolicy.type === 'jumper' && !dealFromDeck) {
+            reversalPolicy = { type: 'none' };
+        }
 
-        if (!drawResponse.ok) {
-            throw new Error(`RNG API error: ${drawResponse.status}`);
+        let drawResult: DrawResponse;
+        if (dealFromDeck) {
+            // Deal from the top of the session's shuffled deck
+            const dealt = await dealFromSessionDeck(context.sessionId as string, snapshot.n_cards, reversalPolicy);
+            if (!dealt.success) {
+                return { success: false, error: dealt.error };
+            }
+            drawResult = dealt.value;
+        } else {
+            // Draw cards in-process via the RNG service
+            const drawn = await drawCards({
+                n: snapshot.n_cards,
+                allowDuplicates,
+                reversalPolicy,
+                seed: context.drawSeed,
+                cardPool: card_pool,
+            }, { onCommitted: context.onDrawCommitted });
+            if (!drawn.success) {
+                return { success: false, error: drawn.error };
+            }
+            drawResult = drawn.response;
         }
 
-        const { draws, provenance } = await drawResponse.json() as {
-            draws: Array<{ cardId: number; reversed: boolean }>;
-            provenance: RngProvenance;
-        };
+        // Remote entropy failed: the user finishes the draw with the slot machine
+        if (drawResult.slot_machine) {
+            if (!context.onSlotMachineRequired) {
+                throw new Error('Remote entropy unavailable and no slot-machine handler');
+            }
+            drawResult = await context.onSlotMachineRequired(drawResult.slot_machine);
+        }
+
+        const { draws, provenance } = drawResult;
 
         // Build reading cards
         const readingCards: ReadingCard[] = draws.map((draw, index) => ({
             position_index: index,
             card_id: draw.cardId,
             reversed: draw.reversed,
+            ...(draw.jumper && { jumper: true }),
         }));
 
-        // Create reading object
-        const readingId = uuidv4();
-        const reading: Reading = {
-            id: readingId,
-            created_at: new Date().toISOString(),
-            spread_id: spreadId,
-            spread_snapshot: {
-                name: spreadName,
-                purpose: spreadPurpose,
-                n_cards: nCards,
-                positions,
-                layout_descriptor: layoutDescriptor,
-                source: {
-                    type: spread_slug ? 'system' : 'custom',
-                    spread_id: spreadId,
-                    slug: spread_slug,
-                },
-            },
+        const reading = createReading({
+            snapshot,
             question,
-            allow_duplicates: false,
-            allow_reversals: true,
             cards: readingCards,
             rng: provenance,
-        };
-
-        // Build SpreadWithCards for context
-        const allCards = getAllCards();
-        const spreadWithCards: SpreadWithCards = {
-            reading_id: readingId,
-            question,
-            spread: reading.spread_snapshot,
-            cards: readingCards.map(rc => ({
-                position_index: rc.position_index,
-                card: allCards.find(c => c.id === rc.card_id) as Card,
-                reversed: rc.reversed,
-            })),
-        };
+            allowDuplicates: dealFromDeck ? false : allowDuplicates,
+            reversalPolicy,
+            cardPool: card_pool && resolveCardPool(card_pool),
+        });
 
         return {
             success: true,
             reading,
-            spreadWithCards,
+            spreadWithCards: toSpreadWithCards(reading),
         };
     } catch (error) {
         return {
@@ -248,6 +317,83 @@ export async function executeDrawCards(args: {
     }
 }
 
+/**
+ * Execute draw_clarifier tool
+ * Appends one card from the remaining deck to the active spread
+ */
+export async function executeDrawClarifier(
+    args: {
+        position?: number; // 1-based
+        kind?: ClarifierKind;
+    },
+    context: ToolExecutionContext = {}
+): Promise<DrawClarifierResult> {
+    if (!context.activeSpread) {
+        return { success: false, error: 'No spread has been laid yet. Draw cards first.' };
+    }
+
+    const result = await drawClarifier({
+        spread: context.activeSpread,
+        positionIndex: args.position !== undefined ? args.position - 1 : null,
+        kind: args.kind === 'shadow' ? 'shadow' : 'clarifier',
+        allowReversals: context.preferences?.allowReversals ?? true,
+        reversalPolicy: context.preferences?.reversalPolicy,
+        seed: context.drawSeed,
+        sessionId: context.preferences?.drawMode === 'shuffle' ? context.sessionId : undefined,
+        onSlotMachineRequired: context.onSlotMachineRequired,
+    });
+    if (!result.success) {
+        return { success: false, error: result.error };
+    }
+
+    return { success: true, clarifier: result.clarifier, spreadWithCards: result.spreadWithCards };
+}
+
+/**
+ * Check interpret_positions arguments against the active spread
+ * Positions come in 1-based and are returned 0-based; compared positions are in focus too.
+ */
+export function resolvePositionFocus(
+    args: {
+        positions?: number[];
+        compare?: number[];
+        focus?: string;
+    },
+    activeSpread?: SpreadWithCards
+): PositionFocusResult {
+    if (!activeSpread) {
+        return { success: false, error: 'No spread has been laid yet. Draw cards first.' };
+    }
+    if (!args.focus?.trim()) {
+        return { success: false, error: 'focus is required: the user\'s question about these cards' };
+    }
+    if (args.compare && (args.compare.length !== 2 || args.compare[0] === args.compare[1])) {
+        return { success: false, error: 'compare takes two different position numbers' };
+    }
+
+    const requested = [...(args.positions ?? []), ...(args.compare ?? [])];
+    if (requested.length === 0) {
+        return { success: false, error: 'Give at least one position number' };
+    }
+
+    const missing = requested.filter(n => !activeSpread.cards.some(c => c.position_index === n - 1));
+    if (missing.length > 0) {
+        return {
+            success: false,
+            error: `No card at position ${missing.join(', ')}; this spread has positions 1-${activeSpread.cards.length}`,
+        };
+    }
+
+    return {
+        success: true,
+        focus: {
+            position_indexes: [...new Set(requested)].map(n => n - 1),
+            compare: args.compare && [args.compare[0] - 1, args.compare[1] - 1],
+            focus: args.focus.trim(),
+        },
+    };
+}
+
 /**
  * Format a spread with cards for the AI context
  */
@@ -256,24 +402,64 @@ export function formatSpreadForAI(spreadWithCards: SpreadWithCards): string {
         `## Current Spread: ${spreadWithCards.spread.name}`,
         `**Question:** ${spreadWithCards.question}`,
         `**Purpose:** ${spreadWithCards.spread.purpose}`,
-        '',
-        '**Cards drawn:**',
     ];
 
-    for (const { position_index, card, reversed } of spreadWithCards.cards) {
+    if (spreadWithCards.card_pool) {
+        lines.push(`**Card pool:** ${describeCardPool(spreadWithCards.card_pool)}. Cards outside this pool could not be drawn.`);
+    }
+    if (spreadWithCards.reversal_policy) {
+        lines.push(`**Reversals:** ${describeReversalPolicy(spreadWithCards.reversal_policy)}`);
+    }
+
+    lines.push('', '**Cards drawn:**');
+
+    for (const { position_index, card, reversed, jumper } of spreadWithCards.cards) {
         const position = spreadWithCards.spread.positions.find(p => p.index === position_index);
-        const orientation = reversed ? 'Reversed' : 'Upright';
+        const orientation = `${reversed ? 'Reversed' : 'Upright'}${jumper ? ', jumped out of the deck' : ''}`;
         const keywords = reversed ? card.keywords_reversed : card.keywords;
 
         lines.push(
             `- Position ${position_index + 1} (${position?.meaning}): **${card.name}** (${orientation})`,
             `  Keywords: ${keywords.join(', ')}`
         );
+
+        for (const clarifier of spreadWithCards.clarifiers ?? []) {
+            if (clarifier.position_index === position_index) {
+                lines.push(`  ${formatClarifierForAI(clarifier)}`);
+            }
+        }
+    }
+
+    const spreadClarifiers = (spreadWithCards.clarifiers ?? []).filter(c => c.position_index === null);
+    if (spreadClarifiers.length > 0) {
+        lines.push('', '**Drawn for the whole spread:**');
+        for (const clarifier of spreadClarifiers) {
+            lines.push(`- ${formatClarifierForAI(clarifier)}`);
+        }
     }
 
     return lines.join('\n');
 }
 
+function describeReversalPolicy(policy: ReversalPolicy): string {
+    switch (policy.type) {
+        case 'none':
+            return 'Off. Every card was drawn upright by choice; do not read any card as reversed.';
+        case 'uniform':
+            return 'Each card had an even chance of being reversed.';
+        case 'probability':
+            return `Each card had a ${Math.round(policy.p * 100)}% chance of being reversed.`;
+        case 'jumper':
+            return 'Jumpers only. Cards are upright unless they jumped out of the deck during the shuffle; a reversed card here is a jumper and carries extra emphasis.';
+    }
+}
+
+function formatClarifierForAI({ kind, card, reversed }: SpreadClarifier): string {
+    const label = kind === 'shadow' ? 'Shadow card' : 'Clarifier';
+    const keywords = reversed ? card.keywords_reversed : card.keywords;
+    return `${label}: **${card.name}** (${reversed ? 'Reversed' : 'Upright'}) — ${keywords.join(', ')}`;
+}
+
 /**
  * Format spread ledger for AI context
  */
@@ -289,6 +475,7 @@ export function formatLedgerForAI(ledger: SpreadLedgerEntry[]): string {
             `- **${entry.spread_name}** (${entry.created_at})`,
             `  Question: ${entry.question_summary}`,
             `  Cards: ${entry.cards_summary}`,
+            ...(entry.clarifiers_summary ? [`  Added later: ${entry.clarifiers_summary}`] : []),
             ''
         );
     }
@@ -308,6 +495,15 @@ export function createLedgerEntry(reading: Reading, allCards: Card[]): SpreadLed
         })
         .join(', ');
 
+    const clarifiersSummary = (reading.clarifiers ?? [])
+        .map(clarifier => {
+            const card = allCards.find(c => c.id === clarifier.card_id);
+            const name = card?.name || `Card ${clarifier.card_id}`;
+            const target = clarifier.position_index === null ? 'spread' : `position ${clarifier.position_index + 1}`;
+            return `${name}${clarifier.reversed ? ' (R)' : ''} [${clarifier.kind}, ${target}]`;
+        })
+        .join(', ');
+
     return {
         reading_id: reading.id,
         question_summary: reading.question.length > 100
@@ -315,6 +511,7 @@ export function createLedgerEntry(reading: Reading, allCards: Card[]): SpreadLed
             : reading.question,
         spread_name: reading.spread_snapshot.name,
         cards_summary: cardsSummary,
+        clarifiers_summary: clarifiersSummary || undefined,
         created_at: reading.created_at,
     };
 }
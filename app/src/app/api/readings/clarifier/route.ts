@@ -0,0 +1,54 @@
+/**
+ * Clarifier API — Draw one more card onto a laid spread
+ *
+ * Takes the active SpreadWithCards and returns it with the clarifier appended.
+ * The card comes from the remaining deck (cards on the table are excluded).
+ * Slot-machine fallback is chat-only: if remote entropy fails, this returns an error.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ClarifierRequest, ClarifierResponse } from '@/types';
+import { drawClarifier } from '@/services/clarifierService';
+import { validateReversalPolicy } from '@/services/rngService';
+
+export async function POST(request: NextRequest) {
+    let body: ClarifierRequest;
+    try {
+        body = await request.json();
+    } catch {
+        return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    try {
+        const { spread, position_index = null, kind = 'clarifier', allowReversals = true, reversalPolicy } = body;
+
+        // Validation
+        if (!spread || !Array.isArray(spread.cards) || !spread.spread) {
+            return NextResponse.json({ error: 'spread is required' }, { status: 400 });
+        }
+        if (kind !== 'clarifier' && kind !== 'shadow') {
+            return NextResponse.json({ error: 'kind must be "clarifier" or "shadow"' }, { status: 400 });
+        }
+        const policyError = reversalPolicy && validateReversalPolicy(reversalPolicy);
+        if (policyError) {
+            return NextResponse.json({ error: policyError }, { status: 400 });
+        }
+
+        const result = await drawClarifier({ spread, positionIndex: position_index, kind, allowReversals, reversalPolicy });
+        if (!result.success) {
+            return NextResponse.json({ error: result.error }, { status: 400 });
+        }
+
+        const response: ClarifierResponse = {
+            clarifier: result.clarifier,
+            spreadWithCards: result.spreadWithCards,
+        };
+        return NextResponse.json(response);
+    } catch (error) {
+        console.error('Clarifier error:', error);
+        return NextResponse.json(
+            { error: 'Failed to draw clarifier' },
+            { status: 500 }
+        );
+    }
+}
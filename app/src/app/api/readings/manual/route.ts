@@ -0,0 +1,107 @@
+/**
+ * Manual Reading API — Lay a spread with cards drawn from a physical deck
+ *
+ * The user picks a spread and enters each position's card and orientation.
+ * Produces a normal Reading with rng.method_used = 'manual', so it can be
+ * shown in the spread viewer and interpreted like any drawn spread.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ManualReadingRequest, ManualReadingResponse, ReadingCard, RngAttempt } from '@/types';
+import { getCardById } from '@/services/cardService';
+import { resolveSpreadSelection, createReading, toSpreadWithCards } from '@/services/readingService';
+
+export async function POST(request: NextRequest) {
+    const startedAt = new Date().toISOString();
+    let body: ManualReadingRequest;
+    try {
+        body = await request.json();
+    } catch {
+        return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    try {
+        const { spread_slug, custom_positions, question, cards } = body;
+
+        // Validation
+        if (!question || !question.trim()) {
+            return NextResponse.json({ error: 'question is required' }, { status: 400 });
+        }
+        if (!Array.isArray(cards)) {
+            return NextResponse.json({ error: 'cards array is required' }, { status: 400 });
+        }
+
+        const selection = resolveSpreadSelection({ spread_slug, custom_positions });
+        if (!selection.success) {
+            return NextResponse.json({ error: selection.error }, { status: 400 });
+        }
+        const { snapshot } = selection;
+
+        const cardError = validateManualCards(cards, snapshot.n_cards);
+        if (cardError) {
+            return NextResponse.json({ error: cardError }, { status: 400 });
+        }
+
+        const attempt: RngAttempt = {
+            method: 'manual',
+            provider: 'user',
+            started_at: startedAt,
+            ended_at: new Date().toISOString(),
+            success: true,
+            meta: { entered_cards: cards.length },
+        };
+
+        const reading = createReading({
+            snapshot,
+            question: question.trim(),
+            cards: [...cards]
+                .sort((a, b) => a.position_index - b.position_index)
+                .map(c => ({ position_index: c.position_index, card_id: c.card_id, reversed: Boolean(c.reversed) })),
+            rng: { method_used: 'manual', attempts: [attempt] },
+        });
+
+        const response: ManualReadingResponse = {
+            reading,
+            spreadWithCards: toSpreadWithCards(reading),
+        };
+        return NextResponse.json(response);
+    } catch (error) {
+        console.error('Manual reading error:', error);
+        return NextResponse.json(
+            { error: 'Failed to create reading' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * Check that every position has exactly one known card and no card repeats
+ * (a physical deck cannot produce the same card twice)
+ */
+function validateManualCards(cards: ReadingCard[], nCards: number): string | null {
+    if (cards.length !== nCards) {
+        return `Expected ${nCards} cards, got ${cards.length}`;
+    }
+
+    const positions = new Set<number>();
+    const cardIds = new Set<number>();
+
+    for (const card of cards) {
+        if (!Number.isInteger(card.position_index) || card.position_index < 0 || card.position_index >= nCards) {
+            return `Invalid position_index: ${card.position_index}`;
+        }
+        if (positions.has(card.position_index)) {
+            return `Position ${card.position_index + 1} has more than one card`;
+        }
+        if (!getCardById(card.card_id)) {
+            return `Unknown card_id: ${card.card_id}`;
+        }
+        if (cardIds.has(card.card_id)) {
+            return `${getCardById(card.card_id)?.name} appears more than once`;
+        }
+        positions.add(card.position_index);
+        cardIds.add(card.card_id);
+    }
+
+    return null;
+}
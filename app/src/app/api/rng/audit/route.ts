@@ -0,0 +1,39 @@
+/**
+ * RNG Audit API — Are draws fair over time?
+ *
+ * GET ?from=ISO&to=ISO (both optional; from inclusive, to exclusive)
+ * Returns per-card frequency, reversal ratio, chi-square p-values and
+ * provider share for draws in the audit log.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { buildAuditReport } from '@/services/auditService';
+
+function parseDate(value: string | null): Date | undefined | null {
+    if (!value) return undefined;
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? null : date;
+}
+
+export async function GET(request: NextRequest) {
+    try {
+        const from = parseDate(request.nextUrl.searchParams.get('from'));
+        const to = parseDate(request.nextUrl.searchParams.get('to'));
+
+        // Validation
+        if (from === null || to === null) {
+            return NextResponse.json({ error: 'from and to must be ISO dates' }, { status: 400 });
+        }
+        if (from && to && from >= to) {
+            return NextResponse.json({ error: 'from must be before to' }, { status: 400 });
+        }
+
+        return NextResponse.json(await buildAuditReport(from, to));
+    } catch (error) {
+        console.error('RNG audit error:', error);
+        return NextResponse.json(
+            { error: 'Failed to build RNG audit report' },
+            { status: 500 }
+        );
+    }
+}
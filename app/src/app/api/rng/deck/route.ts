@@ -0,0 +1,59 @@
+/**
+ * RNG Deck API — The session deck for the shuffle draw mode
+ *
+ * GET  ?session_id=...                       → DeckStatus
+ * POST { session_id, action: 'shuffle' }     → gather dealt cards and shuffle
+ * POST { session_id, action: 'cut', position } → cut at the user's position
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { DeckActionRequest } from '@/types';
+import { cutSessionDeck, getDeckStatus, shuffleSessionDeck } from '@/services/deckService';
+
+export async function GET(request: NextRequest) {
+    const sessionId = request.nextUrl.searchParams.get('session_id');
+    if (!sessionId) {
+        return NextResponse.json({ error: 'session_id is required' }, { status: 400 });
+    }
+
+    return NextResponse.json(getDeckStatus(sessionId));
+}
+
+export async function POST(request: NextRequest) {
+    let body: DeckActionRequest;
+    try {
+        body = await request.json();
+    } catch {
+        return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    try {
+        const { session_id, action, position } = body;
+
+        // Validation
+        if (!session_id) {
+            return NextResponse.json({ error: 'session_id is required' }, { status: 400 });
+        }
+
+        let result;
+        if (action === 'shuffle') {
+            result = await shuffleSessionDeck(session_id);
+        } else if (action === 'cut') {
+            result = cutSessionDeck(session_id, Number(position));
+        } else {
+            return NextResponse.json({ error: 'action must be "shuffle" or "cut"' }, { status: 400 });
+        }
+
+        if (!result.success) {
+            return NextResponse.json({ error: result.error }, { status: action === 'shuffle' ? 503 : 400 });
+        }
+
+        return NextResponse.json(result.value);
+    } catch (error) {
+        console.error('RNG deck error:', error);
+        return NextResponse.json(
+            { error: 'Failed to update deck' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,48 @@
+/**
+ * Slot-Machine Tap API — Completes a draw that fell through the RNG cascade
+ *
+ * The client sends one request per tap with the elapsed spin time.
+ * Each tap maps to at most one card; rejected taps (out of range, duplicate)
+ * just ask for another tap. The final tap returns the full DrawResponse.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { SlotMachineTapRequest } from '@/types';
+import { submitSlotMachineTap } from '@/lib/rng/slotMachine';
+
+export async function POST(request: NextRequest) {
+    let body: SlotMachineTapRequest;
+    try {
+        body = await request.json();
+    } catch {
+        return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    try {
+        const { draw_id, elapsed_ms } = body;
+
+        // Validation
+        if (!draw_id) {
+            return NextResponse.json({ error: 'draw_id is required' }, { status: 400 });
+        }
+        if (typeof elapsed_ms !== 'number' || !Number.isFinite(elapsed_ms) || elapsed_ms < 0) {
+            return NextResponse.json({ error: 'elapsed_ms must be a non-negative number' }, { status: 400 });
+        }
+
+        const result = submitSlotMachineTap(draw_id, elapsed_ms);
+        if (!result) {
+            return NextResponse.json(
+                { error: 'Slot-machine draw not found or already complete' },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json(result);
+    } catch (error) {
+        console.error('Slot-machine tap error:', error);
+        return NextResponse.json(
+            { error: 'Failed to record tap' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,48 @@
+/**
+ * RNG Stand-in API — Offline ANU QRNG and random.org (development and test only)
+ *
+ * Mounts scripts/rng-standin/core.mjs, which `npm run rng:standin` also serves. Point
+ * the providers here with:
+ *   ANU_QRNG_BASE_URL=http://localhost:3000/api/rng/standin/anu
+ *   RANDOM_ORG_BASE_URL=http://localhost:3000/api/rng/standin/random-org
+ *   RANDOM_ORG_PUBLIC_KEY=<GET /api/rng/standin/random-org/public-key>
+ * A fixed RNG_STANDIN_SIGNING_KEY keeps that key stable across restarts.
+ * Script failures with POST /api/rng/standin/_script (see core.mjs).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createStandin, scriptFromEnv } from '../../../../../../scripts/rng-standin/core.mjs';
+
+let standin: ReturnType<typeof createStandin> | null = null;
+
+/**
+ * Create the stand-in on first use
+ * Generating its signing key is slow, so production builds never do it.
+ */
+function getStandin(): ReturnType<typeof createStandin> {
+    if (!standin) {
+        standin = createStandin({ script: scriptFromEnv(), signingKey: process.env.RNG_STANDIN_SIGNING_KEY });
+    }
+    return standin;
+}
+
+async function handle(request: NextRequest, { params }: { params: Promise<{ path: string[] }> }) {
+    if (process.env.NODE_ENV === 'production') {
+        return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    try {
+        const { path } = await params;
+        return await getStandin().handle(request, path);
+    } catch (error) {
+        console.error('RNG stand-in error:', error);
+        return NextResponse.json(
+            { error: 'Stand-in failed' },
+            { status: 500 }
+        );
+    }
+}
+
+export const GET = handle;
+export const POST = handle;
+export const DELETE = handle;
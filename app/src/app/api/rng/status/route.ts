@@ -0,0 +1,45 @@
+/**
+ * RNG Status API — Why are draws slow?
+ *
+ * Lists every configured entropy provider in cascade order with its
+ * availability and circuit breaker state, plus the entropy pool.
+ */
+
+import { NextResponse } from 'next/server';
+import { RngProviderStatus, RngStatusResponse } from '@/types';
+import { getRngProviderConfig } from '@/config/rng';
+import { getEntropyProvider } from '@/lib/rng/registry';
+import { getCircuitStatus } from '@/lib/rng/circuitBreaker';
+import { getEntropyPoolStatus } from '@/lib/rng/entropyPool';
+
+export async function GET() {
+    try {
+        const providers: RngProviderStatus[] = getRngProviderConfig().map(config => {
+            const provider = getEntropyProvider(config.name);
+            const health = provider?.health() ?? { available: false, detail: 'Not registered' };
+
+            return {
+                name: config.name,
+                method: provider?.method,
+                enabled: config.enabled,
+                registered: Boolean(provider),
+                timeout_ms: config.timeoutMs,
+                available: health.available,
+                detail: health.detail,
+                circuit: getCircuitStatus(config.name),
+            };
+        });
+
+        const response: RngStatusResponse = {
+            providers,
+            pool: getEntropyPoolStatus(),
+        };
+        return NextResponse.json(response);
+    } catch (error) {
+        console.error('RNG status error:', error);
+        return NextResponse.json(
+            { error: 'Failed to get RNG status' },
+            { status: 500 }
+        );
+    }
+}
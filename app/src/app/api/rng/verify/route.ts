@@ -0,0 +1,41 @@
+/**
+ * RNG Verify API — Check a draw receipt
+ *
+ * Accepts a DrawReceipt (object or the JSON string stored in
+ * RngProvenance.final_seed_or_receipt) and confirms:
+ * - the server signature is valid
+ * - the commitment matches the revealed words and salt
+ * - replaying the words through the draw mapping yields exactly the recorded cards
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { DrawReceipt, VerifyReceiptRequest } from '@/types';
+import { decodeDrawReceipt, verifyDrawReceipt } from '@/lib/rng/receipts';
+
+export async function POST(request: NextRequest) {
+    let body: VerifyReceiptRequest;
+    try {
+        body = await request.json();
+    } catch {
+        return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    try {
+        const receipt: DrawReceipt | null = typeof body.receipt === 'string'
+            ? decodeDrawReceipt(body.receipt)
+            : body.receipt;
+
+        // Validation
+        if (!receipt || receipt.version !== 1 || !Array.isArray(receipt.words) || !Array.isArray(receipt.draws) || !receipt.params) {
+            return NextResponse.json({ error: 'A valid receipt is required' }, { status: 400 });
+        }
+
+        return NextResponse.json(verifyDrawReceipt(receipt));
+    } catch (error) {
+        console.error('RNG verify error:', error);
+        return NextResponse.json(
+            { error: 'Failed to verify receipt' },
+            { status: 500 }
+        );
+    }
+}
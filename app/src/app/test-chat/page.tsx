@@ -8,7 +8,8 @@
  */
 
 import { useState, useRef, useEffect } from 'react';
-import { ChatStreamEvent, SpreadWithCards, SpreadLedgerEntry, Reading } from '@/types';
+import { ChatStreamEvent, SpreadWithCards, SpreadLedgerEntry, Reading, ChatHarnessReport } from '@/types';
+import { parseSSEMessage } from '@/lib/sse';
 
 interface Message {
     id: string;
@@ -26,6 +27,9 @@ export default function TestChatPage() {
     const [spreadLedger, setSpreadLedger] = useState<SpreadLedgerEntry[]>([]);
     const [debugEvents, setDebugEvents] = useState<ChatStreamEvent[]>([]);
     const [showDebug, setShowDebug] = useState(true);
+    const [drawSeed, setDrawSeed] = useState(''); // Empty = live entropy
+    const [harnessReport, setHarnessReport] = useState<ChatHarnessReport | null>(null);
+    const [isHarnessRunning, setIsHarnessRunning] = useState(false);
     const messagesEndRef = useRef<HTMLDivElement>(null);
 
     // Auto-scroll to bottom
@@ -43,6 +47,34 @@ export default function TestChatPage() {
         setIsLoading(false);
     };
 
+    // Run the scripted mock-model conversations (/api/chat/harness)
+    const runHarness = async () => {
+        setIsHarnessRunning(true);
+        setShowDebug(true);
+        try {
+            const response = await fetch('/api/chat/harness');
+            const data = await response.json();
+            if (!response.ok) {
+                throw new Error(data.error || `HTTP ${response.status}`);
+            }
+            setHarnessReport(data);
+        } catch (error) {
+            setHarnessReport({
+                passed: false,
+                results: [{
+                    name: 'harness',
+                    description: 'Could not run the harness',
+                    passed: false,
+                    events: [],
+                    expected: [],
+                    errors: [error instanceof Error ? error.message : 'Unknown error'],
+                }],
+            });
+        } finally {
+            setIsHarnessRunning(false);
+        }
+    };
+
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         if (!input.trim() || isLoading) return;
@@ -71,6 +103,7 @@ export default function TestChatPage() {
                     messages: apiMessages,
                     activeSpread,
                     spreadLedger,
+                    drawSeed: drawSeed.trim() || undefined,
                 }),
             });
 
@@ -105,10 +138,11 @@ export default function TestChatPage() {
                 buffer = lines.pop() || '';
 
                 for (const line of lines) {
-                    if (!line.startsWith('data: ')) continue;
+                    const message = parseSSEMessage(line);
+                    if (!message) continue;
 
                     try {
-                        const event = JSON.parse(line.slice(6)) as ChatStreamEvent;
+                        const event = message.event;
                         setDebugEvents(prev => [...prev, event]);
 
                         switch (event.type) {
@@ -228,6 +262,21 @@ export default function TestChatPage() {
                 >
                     🔄 New Session
                 </button>
+                <input
+                    value={drawSeed}
+                    onChange={e => setDrawSeed(e.target.value)}
+                    placeholder="Draw seed (optional)"
+                    title="Lay identical spreads every time with the same seed"
+                    style={styles.seedInput}
+                />
+                <button
+                    onClick={runHarness}
+                    disabled={isHarnessRunning}
+                    title="Replay scripted conversations with mock models"
+                    style={styles.harnessButton}
+                >
+                    {isHarnessRunning ? 'Running...' : '🧪 Run Harness'}
+                </button>
                 <button
                     onClick={() => setShowDebug(!showDebug)}
                     style={styles.debugToggle}
@@ -312,6 +361,29 @@ export default function TestChatPage() {
 
                 {showDebug && (
                     <div style={styles.debugPanel}>
+                        {harnessReport && (
+                            <div style={styles.debugSection}>
+                                <h4>Harness {harnessReport.passed ? '✅ passed' : '❌ failed'}</h4>
+                                {harnessReport.results.map(result => (
+                                    <div key={result.name} style={styles.harnessResult}>
+                                        <div>
+                                            {result.passed ? '✅' : '❌'} <code>{result.name}</code>
+                                            <span style={styles.harnessDescription}> — {result.description}</span>
+                                        </div>
+                                        {!result.passed && (
+                                            <pre style={styles.debugContent}>
+                                                {[
+                                                    ...result.errors,
+                                                    `expected: ${result.expected.join(', ')}`,
+                                                    `received: ${result.events.join(', ')}`,
+                                                ].join('\n')}
+                                            </pre>
+                                        )}
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+
                         <h3 style={styles.debugTitle}>Debug Events</h3>
                         <div style={styles.debugEvents}>
                             {debugEvents.map((event, i) => (
@@ -379,6 +451,23 @@ const styles: Record<string, React.CSSProperties> = {
         color: '#aaa',
         cursor: 'pointer',
     },
+    harnessButton: {
+        padding: '0.5rem 1rem',
+        background: '#2a2a3a',
+        border: 'none',
+        borderRadius: '4px',
+        color: '#aaa',
+        cursor: 'pointer',
+    },
+    seedInput: {
+        padding: '0.5rem',
+        backgroundColor: '#1a1a2e',
+        border: '1px solid #2a2a3a',
+        borderRadius: '4px',
+        color: '#e0e0e0',
+        fontSize: '0.85rem',
+        width: '180px',
+    },
     newSessionButton: {
         padding: '0.5rem 1rem',
         background: 'linear-gradient(135deg, #e74c3c, #c0392b)',
@@ -525,6 +614,13 @@ const styles: Record<string, React.CSSProperties> = {
         backgroundColor: '#1a1a2e',
         borderRadius: '4px',
     },
+    harnessResult: {
+        marginTop: '0.5rem',
+        fontSize: '0.8rem',
+    },
+    harnessDescription: {
+        color: '#888',
+    },
     debugContent: {
         margin: 0,
         fontSize: '0.7rem',
@@ -1,18 +1,23 @@
 'use client';
 
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useMemo } from 'react';
 import { useChatUI } from '@/contexts/ChatUIContext';
 import { useChat } from '@/hooks/useChat';
 import { SpreadViewer } from './SpreadViewer';
 import { ChatPanel } from './ChatPanel';
 import { MessageInput } from './MessageInput';
+import { SlotMachineDraw } from './SlotMachineDraw';
+import { ManualEntryPanel } from './ManualEntryPanel';
+import { DeckControls } from './DeckControls';
+import { ReversalControls } from './ReversalControls';
+import { DepthControls } from './DepthControls';
 import { AppHeader } from '../AppHeader';
 import { SettingsDrawer } from '../drawers/SettingsDrawer';
 import { HistoryDrawer } from '../drawers/HistoryDrawer';
+import { AiDepth, ManualReadingRequest, ReadingPreferences, ReversalPolicy } from '@/types';
 
 export function ChatLayout() {
     const { spreadViewMode, activeSpread, showMockSpread } = useChatUI();
-    const { messages, isLoading, sendMessage, clearMessages } = useChat();
 
     // Container ref for drawer portals (ensures drawers render within app bounds)
     const containerRef = useRef<HTMLDivElement>(null);
@@ -20,10 +25,38 @@ export function ChatLayout() {
     // Drawer states
     const [isSettingsOpen, setIsSettingsOpen] = useState(false);
     const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+    const [isManualEntryOpen, setIsManualEntryOpen] = useState(false);
 
     // Settings states (with defaults)
-    const [includeReversals, setIncludeReversals] = useState(true);
+    const [reversalPolicy, setReversalPolicy] = useState<ReversalPolicy>({ type: 'uniform' });
     const [allowDuplicates, setAllowDuplicates] = useState(false);
+    const [useShuffledDeck, setUseShuffledDeck] = useState(false);
+    const [interpretationDepth, setInterpretationDepth] = useState<AiDepth>('deep');
+
+    const preferences = useMemo<ReadingPreferences>(() => ({
+        drawMode: useShuffledDeck ? 'shuffle' : 'rng',
+        allowReversals: reversalPolicy.type !== 'none',
+        reversalPolicy,
+        allowDuplicates,
+        interpretationDepth,
+    }), [useShuffledDeck, reversalPolicy, allowDuplicates, interpretationDepth]);
+
+    const {
+        messages,
+        isLoading,
+        sendMessage,
+        stopGeneration,
+        clearMessages,
+        slotMachine,
+        submitSlotMachineTap,
+        addManualReading,
+        deck,
+        deckError,
+        isDeckBusy,
+        refreshDeck,
+        shuffleDeck,
+        cutDeck,
+    } = useChat(preferences);
 
     // Calculate spread height based on view mode
     let spreadHeight = '44px'; // Default to header-only for collapsed mode
@@ -59,6 +92,19 @@ export function ChatLayout() {
         setIsHistoryOpen(false);
     };
 
+    const handleOpenManualEntry = () => {
+        setIsSettingsOpen(false);
+        setIsManualEntryOpen(true);
+    };
+
+    const handleManualReading = async (request: ManualReadingRequest) => {
+        const error = await addManualReading(request);
+        if (!error) {
+            setIsManualEntryOpen(false);
+        }
+        return error;
+    };
+
     const handleSearchHistory = () => {
         alert('Search feature coming soon! (placeholder)');
     };
@@ -113,46 +159,90 @@ export function ChatLayout() {
                 <div style={styles.settingsContent}>
                     <h3 style={styles.sectionTitle}>Reading Options</h3>
 
-                    {/* Include Reversals Toggle */}
+                    {/* Reversal Policy */}
+                    <div style={styles.optionRow}>
+                        <div style={styles.optionInfo}>
+                            <span style={styles.optionLabel}>Reversals</span>
+                            <span style={styles.optionDesc}>How often cards appear upside-down</span>
+                        </div>
+                    </div>
+                    <ReversalControls
+                        policy={reversalPolicy}
+                        jumpersAvailable={useShuffledDeck}
+                        onChange={setReversalPolicy}
+                    />
+
+                    {/* Allow Duplicates Toggle */}
                     <div style={styles.optionRow}>
                         <div style={styles.optionInfo}>
-                            <span style={styles.optionLabel}>Include Reversals</span>
-                            <span style={styles.optionDesc}>Cards may appear upside-down</span>
+                            <span style={styles.optionLabel}>Allow Duplicates</span>
+                            <span style={styles.optionDesc}>Same card can appear multiple times</span>
                         </div>
                         <button
-                            onClick={() => setIncludeReversals(!includeReversals)}
+                            onClick={() => setAllowDuplicates(!allowDuplicates)}
                             style={{
                                 ...styles.toggle,
-                                backgroundColor: includeReversals ? '#B9A27A' : '#D8CFC1',
+                                backgroundColor: allowDuplicates ? '#B9A27A' : '#D8CFC1',
                             }}
                         >
                             <div style={{
                                 ...styles.toggleKnob,
-                                transform: includeReversals ? 'translateX(20px)' : 'translateX(0)',
+                                transform: allowDuplicates ? 'translateX(20px)' : 'translateX(0)',
                             }} />
                         </button>
                     </div>
 
-                    {/* Allow Duplicates Toggle */}
+                    {/* Shuffled Deck Toggle */}
                     <div style={styles.optionRow}>
                         <div style={styles.optionInfo}>
-                            <span style={styles.optionLabel}>Allow Duplicates</span>
-                            <span style={styles.optionDesc}>Same card can appear multiple times</span>
+                            <span style={styles.optionLabel}>Shuffled Deck</span>
+                            <span style={styles.optionDesc}>Deal from one deck you shuffle and cut</span>
                         </div>
                         <button
-                            onClick={() => setAllowDuplicates(!allowDuplicates)}
+                            onClick={() => {
+                                if (!useShuffledDeck) refreshDeck();
+                                if (useShuffledDeck && reversalPolicy.type === 'jumper') {
+                                    setReversalPolicy({ type: 'uniform' });
+                                }
+                                setUseShuffledDeck(!useShuffledDeck);
+                            }}
                             style={{
                                 ...styles.toggle,
-                                backgroundColor: allowDuplicates ? '#B9A27A' : '#D8CFC1',
+                                backgroundColor: useShuffledDeck ? '#B9A27A' : '#D8CFC1',
                             }}
                         >
                             <div style={{
                                 ...styles.toggleKnob,
-                                transform: allowDuplicates ? 'translateX(20px)' : 'translateX(0)',
+                                transform: useShuffledDeck ? 'translateX(20px)' : 'translateX(0)',
                             }} />
                         </button>
                     </div>
 
+                    {useShuffledDeck && (
+                        <DeckControls
+                            deck={deck}
+                            error={deckError}
+                            isBusy={isDeckBusy}
+                            onShuffle={shuffleDeck}
+                            onCut={cutDeck}
+                        />
+                    )}
+
+                    {/* Interpretation Depth */}
+                    <div style={styles.optionRow}>
+                        <div style={styles.optionInfo}>
+                            <span style={styles.optionLabel}>Interpretation Depth</span>
+                            <span style={styles.optionDesc}>Used unless the reader picks a length for the question</span>
+                        </div>
+                    </div>
+                    <DepthControls depth={interpretationDepth} onChange={setInterpretationDepth} />
+
+                    <h3 style={styles.sectionTitle}>Physical Deck</h3>
+
+                    <button onClick={handleOpenManualEntry} style={styles.searchBtn}>
+                        Enter cards manually
+                    </button>
+
                     <p style={styles.footerText}>More settings coming soon</p>
                 </div>
             </SettingsDrawer>
@@ -196,11 +286,26 @@ export function ChatLayout() {
             {/* Middle Region: Chat Panel */}
             <div style={styles.chatRegion}>
                 <ChatPanel messages={messages} isLoading={isLoading} />
+                {slotMachine && (
+                    <SlotMachineDraw
+                        n={slotMachine.n}
+                        remaining={slotMachine.remaining}
+                        taps={slotMachine.taps}
+                        isSubmitting={slotMachine.isSubmitting}
+                        onTap={submitSlotMachineTap}
+                    />
+                )}
+                {isManualEntryOpen && (
+                    <ManualEntryPanel
+                        onSubmit={handleManualReading}
+                        onClose={() => setIsManualEntryOpen(false)}
+                    />
+                )}
             </div>
 
             {/* Bottom Region: Input */}
             <div style={styles.inputRegion}>
-                <MessageInput onSend={sendMessage} isLoading={isLoading} />
+                <MessageInput onSend={sendMessage} onStop={stopGeneration} isLoading={isLoading} />
             </div>
         </div>
     );
@@ -70,7 +70,7 @@ export function ChatPanel({ messages, isLoading }: ChatPanelProps) {
                         }}>
                             {/* System Message (Center bubble) */}
                             {msg.role === 'system' ? (
-                                <div style={styles.systemMessage}>
+                                <div style={styles.systemMessage} title={msg.commitment?.commitment}>
                                     {msg.content}
                                 </div>
                             ) : (
@@ -100,9 +100,14 @@ export function ChatPanel({ messages, isLoading }: ChatPanelProps) {
                                                 {msg.content}
                                             </ReactMarkdown>
                                         ) : (
-                                            <span style={styles.typingIndicator}>Thinking...</span>
+                                            <span style={styles.typingIndicator}>
+                                                {msg.interrupted ? 'Stopped' : 'Thinking...'}
+                                            </span>
                                         )}
                                     </div>
+                                    {msg.interrupted && msg.content && (
+                                        <div style={styles.interrupted}>Interrupted</div>
+                                    )}
                                 </div>
                             )}
                         </div>
@@ -191,6 +196,12 @@ const styles: Record<string, React.CSSProperties> = {
         opacity: 0.6,
         fontStyle: 'italic',
         fontSize: '0.9rem',
+    },
+    interrupted: {
+        marginTop: '6px',
+        color: '#8E7A56',
+        fontStyle: 'italic',
+        fontSize: '0.8rem',
     }
 };
 
@@ -0,0 +1,101 @@
+'use client';
+
+import React, { useState } from 'react';
+import { DeckStatus } from '@/types';
+
+interface DeckControlsProps {
+    deck: DeckStatus | null;
+    error: string | null;
+    isBusy: boolean;
+    onShuffle: () => void;
+    onCut: (position: number) => void;
+}
+
+/**
+ * DeckControls - Shuffle and cut the session deck (shuffle draw mode)
+ * The deck's order stays on the server; this shows what is left and what has been done to it.
+ */
+export function DeckControls({ deck, error, isBusy, onShuffle, onCut }: DeckControlsProps) {
+    const remaining = deck?.remaining ?? 78;
+    const [cutPosition, setCutPosition] = useState(Math.floor(remaining / 2));
+    const position = Math.min(Math.max(cutPosition, 1), remaining - 1);
+    const lastOperation = deck?.operations[deck.operations.length - 1];
+
+    return (
+        <div style={styles.container}>
+            <p style={styles.status}>
+                {remaining} cards in the deck
+                {deck && deck.dealt.length > 0 && ` · ${deck.dealt.length} dealt`}
+                {lastOperation && ` · last ${lastOperation.type === 'shuffle' ? 'shuffled' : 'cut'} ${new Date(lastOperation.at).toLocaleTimeString()}`}
+            </p>
+
+            <button onClick={onShuffle} disabled={isBusy} style={styles.button}>
+                {isBusy ? 'Working...' : deck && deck.dealt.length > 0 ? 'Gather & reshuffle' : 'Shuffle'}
+            </button>
+
+            <div style={styles.cutRow}>
+                <input
+                    type="range"
+                    min={1}
+                    max={remaining - 1}
+                    value={position}
+                    onChange={e => setCutPosition(Number(e.target.value))}
+                    style={styles.slider}
+                    aria-label="Cut position"
+                />
+                <button onClick={() => onCut(position)} disabled={isBusy || remaining < 2} style={styles.cutButton}>
+                    Cut at {position}
+                </button>
+            </div>
+
+            {error && <p style={styles.error}>{error}</p>}
+        </div>
+    );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+    container: {
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '8px',
+    },
+    status: {
+        margin: 0,
+        fontSize: '12px',
+        color: '#8A7E72',
+    },
+    button: {
+        width: '100%',
+        padding: '10px',
+        backgroundColor: '#EFE7DA',
+        border: '1px solid #D8CFC1',
+        borderRadius: '10px',
+        color: '#6B6157',
+        fontSize: '14px',
+        cursor: 'pointer',
+    },
+    cutRow: {
+        display: 'flex',
+        alignItems: 'center',
+        gap: '8px',
+    },
+    slider: {
+        flex: 1,
+        accentColor: '#B9A27A',
+    },
+    cutButton: {
+        padding: '8px 12px',
+        backgroundColor: '#EFE7DA',
+        border: '1px solid #D8CFC1',
+        borderRadius: '10px',
+        color: '#6B6157',
+        fontSize: '13px',
+        cursor: 'pointer',
+        whiteSpace: 'nowrap',
+    },
+    error: {
+        margin: 0,
+        fontSize: '12px',
+        color: '#A4493D',
+    },
+};
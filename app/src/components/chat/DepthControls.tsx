@@ -0,0 +1,72 @@
+'use client';
+
+import React from 'react';
+import { AiDepth } from '@/types';
+
+interface DepthControlsProps {
+    depth: AiDepth;
+    onChange: (depth: AiDepth) => void;
+}
+
+const OPTIONS: Array<{ depth: AiDepth; label: string; hint: string }> = [
+    { depth: 'short', label: 'Short', hint: 'A direct answer in one paragraph' },
+    { depth: 'medium', label: 'Medium', hint: 'A line or two per card, then a summary' },
+    { depth: 'deep', label: 'Deep', hint: 'A full card-by-card reading' },
+];
+
+/**
+ * DepthControls - Choose the default length of interpretations
+ */
+export function DepthControls({ depth, onChange }: DepthControlsProps) {
+    const current = OPTIONS.find(option => option.depth === depth);
+
+    return (
+        <div style={styles.container}>
+            <div style={styles.segments}>
+                {OPTIONS.map(option => {
+                    const selected = option.depth === depth;
+                    return (
+                        <button
+                            key={option.depth}
+                            onClick={() => !selected && onChange(option.depth)}
+                            style={{
+                                ...styles.segment,
+                                backgroundColor: selected ? '#B9A27A' : '#EFE7DA',
+                                color: selected ? '#FFFFFF' : '#6B6157',
+                            }}
+                        >
+                            {option.label}
+                        </button>
+                    );
+                })}
+            </div>
+
+            {current && <p style={styles.hint}>{current.hint}</p>}
+        </div>
+    );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+    container: {
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '8px',
+    },
+    segments: {
+        display: 'flex',
+        gap: '4px',
+    },
+    segment: {
+        flex: 1,
+        padding: '8px 4px',
+        border: '1px solid #D8CFC1',
+        borderRadius: '10px',
+        fontSize: '13px',
+        cursor: 'pointer',
+    },
+    hint: {
+        margin: 0,
+        fontSize: '12px',
+        color: '#8A7E72',
+    },
+};
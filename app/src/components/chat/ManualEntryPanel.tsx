@@ -0,0 +1,294 @@
+'use client';
+
+import React, { useState } from 'react';
+import { getSystemSpreads } from '@/services/spreadService';
+import { getCardById, searchCards } from '@/services/cardService';
+import { ManualReadingRequest } from '@/types';
+
+interface ManualEntryPanelProps {
+    onSubmit: (request: ManualReadingRequest) => Promise<string | null>; // Resolves to an error message, or null on success
+    onClose: () => void;
+}
+
+interface PositionEntry {
+    query: string;
+    cardId: number | null;
+    reversed: boolean;
+}
+
+const emptyEntries = (count: number): PositionEntry[] =>
+    Array.from({ length: count }, () => ({ query: '', cardId: null, reversed: false }));
+
+/**
+ * ManualEntryPanel - Lay a spread with cards from a physical deck
+ * Pick a spread, then enter each position's card (with name typeahead) and orientation.
+ */
+export function ManualEntryPanel({ onSubmit, onClose }: ManualEntryPanelProps) {
+    const spreads = getSystemSpreads();
+    const [spreadSlug, setSpreadSlug] = useState(spreads[0]?.slug ?? '');
+    const [question, setQuestion] = useState('');
+    const [entries, setEntries] = useState<PositionEntry[]>(() => emptyEntries(spreads[0]?.n_cards ?? 0));
+    const [focusedIndex, setFocusedIndex] = useState<number | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const spread = spreads.find(s => s.slug === spreadSlug);
+    const isComplete = question.trim().length > 0 && entries.every(e => e.cardId !== null);
+
+    const handleSpreadChange = (slug: string) => {
+        setSpreadSlug(slug);
+        setEntries(emptyEntries(spreads.find(s => s.slug === slug)?.n_cards ?? 0));
+        setError(null);
+    };
+
+    const updateEntry = (index: number, update: Partial<PositionEntry>) => {
+        setEntries(prev => prev.map((entry, i) => (i === index ? { ...entry, ...update } : entry)));
+    };
+
+    const handleSubmit = async () => {
+        if (!isComplete || isSubmitting) return;
+
+        setIsSubmitting(true);
+        const submitError = await onSubmit({
+            spread_slug: spreadSlug,
+            question: question.trim(),
+            cards: entries.map((entry, index) => ({
+                position_index: index,
+                card_id: entry.cardId as number,
+                reversed: entry.reversed,
+            })),
+        });
+        setIsSubmitting(false);
+        setError(submitError);
+    };
+
+    return (
+        <div style={styles.overlay} onClick={onClose}>
+            <div style={styles.panel} onClick={e => e.stopPropagation()}>
+                <button style={styles.close} onClick={onClose} aria-label="Close manual entry">✕</button>
+                <h3 style={styles.title}>Enter Your Cards</h3>
+
+                <label style={styles.label}>
+                    Spread
+                    <select
+                        value={spreadSlug}
+                        onChange={e => handleSpreadChange(e.target.value)}
+                        style={styles.input}
+                    >
+                        {spreads.map(s => (
+                            <option key={s.slug} value={s.slug}>{s.name} ({s.n_cards} cards)</option>
+                        ))}
+                    </select>
+                </label>
+
+                <label style={styles.label}>
+                    Question
+                    <input
+                        value={question}
+                        onChange={e => setQuestion(e.target.value)}
+                        placeholder="What are you asking the cards?"
+                        style={styles.input}
+                    />
+                </label>
+
+                {spread?.positions.map((position, index) => {
+                    const entry = entries[index];
+                    if (!entry) return null;
+                    const suggestions = focusedIndex === index && entry.cardId === null
+                        ? searchCards(entry.query, 6)
+                        : [];
+
+                    return (
+                        <div key={position.index} style={styles.positionRow}>
+                            <span style={styles.positionLabel}>
+                                {index + 1}. {position.meaning}
+                            </span>
+                            <div style={styles.positionInputs}>
+                                <div style={styles.typeahead}>
+                                    <input
+                                        value={entry.cardId !== null ? getCardById(entry.cardId)?.name ?? '' : entry.query}
+                                        onChange={e => updateEntry(index, { query: e.target.value, cardId: null })}
+                                        onFocus={() => setFocusedIndex(index)}
+                                        onBlur={() => setTimeout(() => setFocusedIndex(null), 150)}
+                                        placeholder="Card name..."
+                                        style={styles.input}
+                                    />
+                                    {suggestions.length > 0 && (
+                                        <ul style={styles.suggestions}>
+                                            {suggestions.map(card => (
+                                                <li key={card.id}>
+                                                    <button
+                                                        type="button"
+                                                        onMouseDown={e => e.preventDefault()}
+                                                        onClick={() => updateEntry(index, { cardId: card.id, query: card.name })}
+                                                        style={styles.suggestion}
+                                                    >
+                                                        {card.name}
+                                                    </button>
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    )}
+                                </div>
+                                <label style={styles.reversedToggle}>
+                                    <input
+                                        type="checkbox"
+                                        checked={entry.reversed}
+                                        onChange={e => updateEntry(index, { reversed: e.target.checked })}
+                                    />
+                                    Reversed
+                                </label>
+                            </div>
+                        </div>
+                    );
+                })}
+
+                {error && <p style={styles.error}>{error}</p>}
+
+                <button
+                    onClick={handleSubmit}
+                    disabled={!isComplete || isSubmitting}
+                    style={{
+                        ...styles.submit,
+                        background: isComplete && !isSubmitting ? '#B9A27A' : '#D8CFC1',
+                        cursor: isComplete && !isSubmitting ? 'pointer' : 'default',
+                    }}
+                >
+                    {isSubmitting ? 'Laying spread...' : 'Lay Spread'}
+                </button>
+            </div>
+        </div>
+    );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+    overlay: {
+        position: 'absolute',
+        inset: 0,
+        backgroundColor: 'rgba(47, 42, 36, 0.4)',
+        backdropFilter: 'blur(4px)',
+        zIndex: 60,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        padding: '20px',
+    },
+    panel: {
+        backgroundColor: '#F6F1E8',
+        borderRadius: '16px',
+        padding: '20px',
+        maxWidth: '360px',
+        width: '100%',
+        maxHeight: '85%',
+        overflowY: 'auto',
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '12px',
+        position: 'relative',
+        boxShadow: '0 10px 25px rgba(47, 42, 36, 0.2)',
+        border: '1px solid #D8CFC1',
+        color: '#2F2A24',
+    },
+    close: {
+        position: 'absolute',
+        top: '10px',
+        right: '10px',
+        background: 'rgba(47, 42, 36, 0.08)',
+        border: 'none',
+        color: '#6B6157',
+        width: '30px',
+        height: '30px',
+        borderRadius: '50%',
+        cursor: 'pointer',
+    },
+    title: {
+        margin: 0,
+        fontSize: '14px',
+        color: '#B9A27A',
+        textTransform: 'uppercase',
+        letterSpacing: '1px',
+    },
+    label: {
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '4px',
+        fontSize: '12px',
+        color: '#8A7E72',
+    },
+    input: {
+        width: '100%',
+        padding: '8px 10px',
+        background: '#FFFDF8',
+        border: '1px solid #D8CFC1',
+        borderRadius: '8px',
+        color: '#2F2A24',
+        fontSize: '14px',
+        outline: 'none',
+    },
+    positionRow: {
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '6px',
+        padding: '8px 0',
+        borderBottom: '1px solid rgba(216, 207, 193, 0.6)',
+    },
+    positionLabel: {
+        fontSize: '12px',
+        color: '#6B6157',
+        lineHeight: 1.4,
+    },
+    positionInputs: {
+        display: 'flex',
+        alignItems: 'center',
+        gap: '8px',
+    },
+    typeahead: {
+        position: 'relative',
+        flex: 1,
+    },
+    suggestions: {
+        position: 'absolute',
+        top: '100%',
+        left: 0,
+        right: 0,
+        margin: '2px 0 0',
+        padding: '4px 0',
+        listStyle: 'none',
+        background: '#FFFDF8',
+        border: '1px solid #D8CFC1',
+        borderRadius: '8px',
+        boxShadow: '0 4px 12px rgba(47, 42, 36, 0.10)',
+        zIndex: 2,
+    },
+    suggestion: {
+        width: '100%',
+        padding: '6px 10px',
+        background: 'none',
+        border: 'none',
+        textAlign: 'left',
+        fontSize: '14px',
+        color: '#2F2A24',
+        cursor: 'pointer',
+    },
+    reversedToggle: {
+        display: 'flex',
+        alignItems: 'center',
+        gap: '4px',
+        fontSize: '12px',
+        color: '#6B6157',
+        whiteSpace: 'nowrap',
+    },
+    error: {
+        margin: 0,
+        fontSize: '12px',
+        color: '#A4493D',
+    },
+    submit: {
+        padding: '12px',
+        border: 'none',
+        borderRadius: '10px',
+        color: '#2F2A24',
+        fontSize: '14px',
+        fontWeight: 600,
+    },
+};
@@ -5,10 +5,11 @@ import { useChatUI } from '@/contexts/ChatUIContext';
 
 interface MessageInputProps {
     onSend?: (message: string) => void;
+    onStop?: () => void; // Shown as a stop button while loading
     isLoading?: boolean;
 }
 
-export function MessageInput({ onSend, isLoading = false }: MessageInputProps) {
+export function MessageInput({ onSend, onStop, isLoading = false }: MessageInputProps) {
     const { setTypingMode } = useChatUI();
     const [message, setMessage] = useState('');
 
@@ -79,30 +80,57 @@ export function MessageInput({ onSend, isLoading = false }: MessageInputProps) {
                 />
             </div>
 
-            <button
-                type="submit"
-                disabled={!message.trim() || isLoading}
-                style={{
-                    width: '44px',
-                    height: '44px',
-                    borderRadius: '50%',
-                    background: !message.trim() || isLoading ? '#D8CFC1' : '#B9A27A',
-                    color: !message.trim() || isLoading ? '#8A7E72' : '#2F2A24',
-                    border: 'none',
-                    display: 'flex',
-                    alignItems: 'center',
-                    justifyContent: 'center',
-                    cursor: !message.trim() || isLoading ? 'default' : 'pointer',
-                    transition: 'background 0.2s ease',
-                    flexShrink: 0,
-                }}
-            >
-                {/* SVG Arrow */}
-                <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-                    <line x1="22" y1="2" x2="11" y2="13"></line>
-                    <polygon points="22 2 15 22 11 13 2 9 22 2"></polygon>
-                </svg>
-            </button>
+            {isLoading && onStop ? (
+                <button
+                    type="button"
+                    onClick={onStop}
+                    aria-label="Stop reading"
+                    title="Stop"
+                    style={{
+                        width: '44px',
+                        height: '44px',
+                        borderRadius: '50%',
+                        background: '#B9A27A',
+                        color: '#2F2A24',
+                        border: 'none',
+                        display: 'flex',
+                        alignItems: 'center',
+                        justifyContent: 'center',
+                        cursor: 'pointer',
+                        flexShrink: 0,
+                    }}
+                >
+                    {/* SVG Stop */}
+                    <svg width="16" height="16" viewBox="0 0 24 24" fill="currentColor">
+                        <rect x="4" y="4" width="16" height="16" rx="2"></rect>
+                    </svg>
+                </button>
+            ) : (
+                <button
+                    type="submit"
+                    disabled={!message.trim() || isLoading}
+                    style={{
+                        width: '44px',
+                        height: '44px',
+                        borderRadius: '50%',
+                        background: !message.trim() || isLoading ? '#D8CFC1' : '#B9A27A',
+                        color: !message.trim() || isLoading ? '#8A7E72' : '#2F2A24',
+                        border: 'none',
+                        display: 'flex',
+                        alignItems: 'center',
+                        justifyContent: 'center',
+                        cursor: !message.trim() || isLoading ? 'default' : 'pointer',
+                        transition: 'background 0.2s ease',
+                        flexShrink: 0,
+                    }}
+                >
+                    {/* SVG Arrow */}
+                    <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                        <line x1="22" y1="2" x2="11" y2="13"></line>
+                        <polygon points="22 2 15 22 11 13 2 9 22 2"></polygon>
+                    </svg>
+                </button>
+            )}
         </form>
     );
 }
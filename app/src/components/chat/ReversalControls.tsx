@@ -0,0 +1,114 @@
+'use client';
+
+import React from 'react';
+import { ReversalPolicy } from '@/types';
+
+interface ReversalControlsProps {
+    policy: ReversalPolicy;
+    jumpersAvailable: boolean; // Jumpers only come from the shuffled deck
+    onChange: (policy: ReversalPolicy) => void;
+}
+
+const DEFAULT_PROBABILITY = 0.25;
+
+const OPTIONS: Array<{ type: ReversalPolicy['type']; label: string }> = [
+    { type: 'none', label: 'Off' },
+    { type: 'uniform', label: '50/50' },
+    { type: 'probability', label: 'Custom' },
+    { type: 'jumper', label: 'Jumpers' },
+];
+
+/**
+ * ReversalControls - Choose how cards come out reversed
+ */
+export function ReversalControls({ policy, jumpersAvailable, onChange }: ReversalControlsProps) {
+    const select = (type: ReversalPolicy['type']) => {
+        onChange(type === 'probability' ? { type, p: DEFAULT_PROBABILITY } : { type });
+    };
+
+    return (
+        <div style={styles.container}>
+            <div style={styles.segments}>
+                {OPTIONS.map(option => {
+                    const selected = policy.type === option.type;
+                    const disabled = option.type === 'jumper' && !jumpersAvailable;
+                    return (
+                        <button
+                            key={option.type}
+                            onClick={() => !selected && select(option.type)}
+                            disabled={disabled}
+                            title={disabled ? 'Turn on Shuffled Deck to read jumpers' : undefined}
+                            style={{
+                                ...styles.segment,
+                                backgroundColor: selected ? '#B9A27A' : '#EFE7DA',
+                                color: selected ? '#FFFFFF' : '#6B6157',
+                                opacity: disabled ? 0.5 : 1,
+                                cursor: disabled ? 'default' : 'pointer',
+                            }}
+                        >
+                            {option.label}
+                        </button>
+                    );
+                })}
+            </div>
+
+            {policy.type === 'probability' && (
+                <div style={styles.sliderRow}>
+                    <input
+                        type="range"
+                        min={0}
+                        max={100}
+                        value={Math.round(policy.p * 100)}
+                        onChange={e => onChange({ type: 'probability', p: Number(e.target.value) / 100 })}
+                        style={styles.slider}
+                        aria-label="Reversal probability"
+                    />
+                    <span style={styles.value}>{Math.round(policy.p * 100)}%</span>
+                </div>
+            )}
+
+            {policy.type === 'jumper' && (
+                <p style={styles.hint}>Only cards that jump out during the shuffle come out reversed</p>
+            )}
+        </div>
+    );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+    container: {
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '8px',
+    },
+    segments: {
+        display: 'flex',
+        gap: '4px',
+    },
+    segment: {
+        flex: 1,
+        padding: '8px 4px',
+        border: '1px solid #D8CFC1',
+        borderRadius: '10px',
+        fontSize: '13px',
+    },
+    sliderRow: {
+        display: 'flex',
+        alignItems: 'center',
+        gap: '8px',
+    },
+    slider: {
+        flex: 1,
+        accentColor: '#B9A27A',
+    },
+    value: {
+        width: '40px',
+        textAlign: 'right',
+        fontSize: '13px',
+        color: '#6B6157',
+    },
+    hint: {
+        margin: 0,
+        fontSize: '12px',
+        color: '#8A7E72',
+    },
+};
@@ -0,0 +1,173 @@
+'use client';
+
+import React, { useEffect, useRef } from 'react';
+import Image from 'next/image';
+import { getCardById } from '@/services/cardService';
+import { SlotMachineTap } from '@/types';
+
+interface SlotMachineDrawProps {
+    n: number;
+    remaining: number;
+    taps: SlotMachineTap[];
+    isSubmitting: boolean;
+    onTap: (elapsedMs: number) => void;
+}
+
+/**
+ * SlotMachineDraw - Spinning deck shown when remote entropy is unavailable
+ * Each tap only decides when a card is drawn; the server's randomness picks which one.
+ */
+export function SlotMachineDraw({ n, remaining, taps, isSubmitting, onTap }: SlotMachineDrawProps) {
+    const spinStartRef = useRef(0);
+
+    useEffect(() => {
+        spinStartRef.current = performance.now();
+    }, []);
+
+    const handleTap = () => {
+        if (isSubmitting || remaining === 0) return;
+        onTap(performance.now() - spinStartRef.current);
+    };
+
+    const drawnCards = taps.filter(t => t.accepted && t.card_id !== undefined);
+    const lastTap = taps[taps.length - 1];
+
+    return (
+        <div style={styles.overlay}>
+            <div style={styles.panel}>
+                <h3 style={styles.title}>Draw by hand</h3>
+                <p style={styles.subtitle}>
+                    The cosmic sources are quiet. Tap the deck when it feels right: your tap picks the moment,
+                    the server&apos;s own randomness picks the card.
+                </p>
+
+                <button
+                    onClick={handleTap}
+                    disabled={isSubmitting || remaining === 0}
+                    style={styles.deck}
+                    aria-label="Tap to draw a card"
+                >
+                    <div style={{ ...styles.deckCard, transform: 'translate(4px, 4px)' }}>
+                        <Image src="/card-back.png" alt="" fill sizes="100px" style={{ objectFit: 'fill' }} />
+                    </div>
+                    <div style={{
+                        ...styles.deckCard,
+                        animation: remaining > 0 ? 'deckSpin 0.35s linear infinite' : 'none',
+                    }}>
+                        <Image src="/card-back.png" alt="Spinning deck" fill sizes="100px" style={{ objectFit: 'fill' }} />
+                    </div>
+                </button>
+
+                <span style={styles.counter}>
+                    {remaining > 0 ? `${n - remaining + 1} of ${n}` : 'All cards drawn'}
+                </span>
+
+                {lastTap && !lastTap.accepted && (
+                    <span style={styles.hint}>
+                        {lastTap.reason === 'awaiting_orientation'
+                            ? `${getCardById(lastTap.card_id as number)?.name} — tap again to turn it`
+                            : 'The deck slipped — tap again'}
+                    </span>
+                )}
+
+                {drawnCards.length > 0 && (
+                    <ul style={styles.drawnList}>
+                        {drawnCards.map((tap, index) => (
+                            <li key={index} style={styles.drawnItem}>
+                                {getCardById(tap.card_id as number)?.name}
+                                {tap.reversed && ' (R)'}
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+        </div>
+    );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+    overlay: {
+        position: 'absolute',
+        inset: 0,
+        backgroundColor: 'rgba(47, 42, 36, 0.4)',
+        backdropFilter: 'blur(4px)',
+        zIndex: 50,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        padding: '20px',
+    },
+    panel: {
+        backgroundColor: '#F6F1E8',
+        borderRadius: '16px',
+        padding: '20px',
+        maxWidth: '340px',
+        width: '100%',
+        display: 'flex',
+        flexDirection: 'column',
+        alignItems: 'center',
+        gap: '12px',
+        boxShadow: '0 10px 25px rgba(47, 42, 36, 0.2)',
+        border: '1px solid #D8CFC1',
+        color: '#2F2A24',
+    },
+    title: {
+        margin: 0,
+        fontSize: '16px',
+        color: '#B9A27A',
+        textTransform: 'uppercase',
+        letterSpacing: '1px',
+    },
+    subtitle: {
+        margin: 0,
+        fontSize: '13px',
+        color: '#8A7E72',
+        textAlign: 'center',
+        fontStyle: 'italic',
+    },
+    deck: {
+        position: 'relative',
+        width: '100px',
+        height: '150px',
+        background: 'none',
+        border: 'none',
+        padding: 0,
+        cursor: 'pointer',
+        perspective: '400px',
+    },
+    deckCard: {
+        position: 'absolute',
+        inset: 0,
+        borderRadius: '8px',
+        overflow: 'hidden',
+        border: '1px solid #D8CFC1',
+        boxShadow: '0 10px 24px rgba(47, 42, 36, 0.12), 0 2px 6px rgba(47, 42, 36, 0.08)',
+        background: '#F8F4EC',
+    },
+    counter: {
+        fontSize: '12px',
+        color: '#8A7E72',
+    },
+    hint: {
+        fontSize: '12px',
+        color: '#B9A27A',
+        fontStyle: 'italic',
+    },
+    drawnList: {
+        listStyle: 'none',
+        margin: 0,
+        padding: 0,
+        display: 'flex',
+        flexWrap: 'wrap',
+        justifyContent: 'center',
+        gap: '6px',
+    },
+    drawnItem: {
+        fontSize: '12px',
+        padding: '4px 8px',
+        borderRadius: '10px',
+        backgroundColor: '#EFE7DA',
+        border: '1px solid #D8CFC1',
+        color: '#6B6157',
+    },
+};
@@ -4,8 +4,9 @@ import React, { useMemo, useState, useRef, useEffect } from 'react';
 import { useChatUI } from '@/contexts/ChatUIContext';
 import { SpreadCard } from './SpreadCard';
 import { parseLayoutDescriptor, getGridDimensions } from '@/lib/layoutParser';
-import { SpreadWithCards, Card } from '@/types';
+import { SpreadWithCards, SpreadClarifier, Card } from '@/types';
 import Image from 'next/image';
+import ReactMarkdown from 'react-markdown';
 
 // Mock card for placeholders (satisfies Card interface)
 const createMockCard = (id: number): Card => ({
@@ -188,6 +189,13 @@ export function SpreadViewer() {
         ? activeSpread.cards.find(c => c.position_index === selectedCardIndex)
         : null;
 
+    const clarifiers = isMockMode ? [] : displaySpread.clarifiers ?? [];
+    const spreadClarifiers = clarifiers.filter(c => c.position_index === null);
+    const selectedClarifiers = clarifiers.filter(c => c.position_index === selectedCardIndex);
+    const interpretation = activeSpread?.ai?.one_shot;
+    const focusedInterpretations = (activeSpread?.ai?.positions ?? [])
+        .filter(p => selectedCardIndex !== null && p.position_indexes.includes(selectedCardIndex));
+
     const hasMultipleSpreads = spreadHistory.length > 1;
     const canGoPrev = currentSpreadIndex > 0;
     const canGoNext = currentSpreadIndex < spreadHistory.length - 1;
@@ -264,6 +272,7 @@ export function SpreadViewer() {
 
                                         const cardData = displaySpread.cards.find(card => card.position_index === cell.positionIndex);
                                         if (!cardData) return <div key={`${r}-${c}`} />;
+                                        const positionClarifiers = clarifiers.filter(cl => cl.position_index === cell.positionIndex);
 
                                         return (
                                             <div
@@ -271,6 +280,7 @@ export function SpreadViewer() {
                                                 style={{
                                                     width: cardSize.width,
                                                     height: cardSize.height,
+                                                    position: 'relative',
                                                     cursor: isExpanded && !isMockMode ? 'pointer' : (isExpanded ? 'default' : 'pointer'),
                                                 }}
                                                 onClick={(e) => handleCardClick(e, cell.positionIndex)}
@@ -285,6 +295,17 @@ export function SpreadViewer() {
                                                         isCompact={!isExpanded}
                                                     />
                                                 )}
+                                                {positionClarifiers.length > 0 && (
+                                                    <div style={styles.clarifierStack}>
+                                                        {positionClarifiers.map(clarifier => (
+                                                            <ClarifierChip
+                                                                key={clarifier.id}
+                                                                clarifier={clarifier}
+                                                                width={Math.max(22, Math.floor(cardSize.width * 0.38))}
+                                                            />
+                                                        ))}
+                                                    </div>
+                                                )}
                                             </div>
                                         );
                                     })
@@ -311,6 +332,16 @@ export function SpreadViewer() {
 
                     {/* Bottom area: indicator dots + expand/collapse button */}
                     <div style={styles.bottomArea}>
+                        {/* Cards drawn for the whole spread */}
+                        {spreadClarifiers.length > 0 && (
+                            <div style={styles.spreadClarifiers}>
+                                <span style={styles.pageIndicator}>Drawn for the spread:</span>
+                                {spreadClarifiers.map(clarifier => (
+                                    <ClarifierChip key={clarifier.id} clarifier={clarifier} width={26} />
+                                ))}
+                            </div>
+                        )}
+
                         {/* Indicator dots */}
                         {hasMultipleSpreads && (
                             <div style={styles.dotsContainer}>
@@ -415,7 +446,7 @@ export function SpreadViewer() {
                             />
                         </div>
                         <div style={styles.modalText}>
-                            <h3>{selectedCardData.card.name} {selectedCardData.reversed && '(Reversed)'}</h3>
+                            <h3>{selectedCardData.card.name} {selectedCardData.reversed && '(Reversed)'} {selectedCardData.jumper && '· Jumper'}</h3>
                             <p style={{ color: '#aaa', fontSize: '14px' }}>
                                 Position {selectedCardIndex + 1}: {activeSpread.spread.positions[selectedCardIndex]?.meaning}
                             </p>
@@ -424,6 +455,32 @@ export function SpreadViewer() {
                                     ? selectedCardData.card.meaning_reversed
                                     : selectedCardData.card.meaning}
                             </p>
+                            {selectedClarifiers.map(clarifier => (
+                                <div key={clarifier.id} style={styles.modalClarifier}>
+                                    <strong>
+                                        {clarifier.kind === 'shadow' ? 'Shadow card' : 'Clarifier'}: {clarifier.card.name}
+                                        {clarifier.reversed && ' (Reversed)'}
+                                    </strong>
+                                    <p style={{ margin: '4px 0 0', fontSize: '13px', lineHeight: 1.5 }}>
+                                        {clarifier.reversed ? clarifier.card.meaning_reversed : clarifier.card.meaning}
+                                    </p>
+                                </div>
+                            ))}
+                            {focusedInterpretations.map(focused => (
+                                <div key={focused.id} style={styles.modalInterpretation}>
+                                    <strong>
+                                        Position{focused.position_indexes.length > 1 && 's'} {focused.position_indexes.map(i => i + 1).join(', ')}
+                                        {focused.compare && ` (${focused.compare[0] + 1} vs ${focused.compare[1] + 1})`}: {focused.focus}
+                                    </strong>
+                                    <ReactMarkdown>{focused.output_text}</ReactMarkdown>
+                                </div>
+                            ))}
+                            {interpretation && (
+                                <div style={styles.modalInterpretation}>
+                                    <strong>Reading interpretation</strong>
+                                    <ReactMarkdown>{interpretation.output_text}</ReactMarkdown>
+                                </div>
+                            )}
                         </div>
                     </div>
                 </div>
@@ -432,6 +489,34 @@ export function SpreadViewer() {
     );
 }
 
+/**
+ * Small card shown beside a position (or under the spread) for a clarifier
+ */
+function ClarifierChip({ clarifier, width }: { clarifier: SpreadClarifier; width: number }) {
+    const label = `${clarifier.kind === 'shadow' ? 'Shadow card' : 'Clarifier'}: ${clarifier.card.name}${clarifier.reversed ? ' (Reversed)' : ''}`;
+
+    return (
+        <div
+            title={label}
+            style={{
+                ...styles.clarifierChip,
+                width,
+                height: Math.floor(width * 1.5),
+                transform: clarifier.reversed ? 'rotate(180deg)' : 'none',
+                opacity: clarifier.kind === 'shadow' ? 0.75 : 1,
+            }}
+        >
+            <Image
+                src={clarifier.card.image}
+                alt={label}
+                fill
+                sizes="60px"
+                style={{ objectFit: 'cover' }}
+            />
+        </div>
+    );
+}
+
 /**
  * Card back component for the mock spread
  */
@@ -658,5 +743,40 @@ const styles: Record<string, React.CSSProperties> = {
     },
     modalText: {
         overflowY: 'auto',
-    }
+    },
+    modalClarifier: {
+        marginTop: '12px',
+        paddingTop: '10px',
+        borderTop: '1px solid #D8CFC1',
+        fontSize: '14px',
+    },
+    modalInterpretation: {
+        marginTop: '12px',
+        paddingTop: '10px',
+        borderTop: '1px solid #D8CFC1',
+        fontSize: '13px',
+        lineHeight: 1.5,
+    },
+    clarifierStack: {
+        position: 'absolute',
+        right: '-6px',
+        bottom: '-6px',
+        display: 'flex',
+        gap: '2px',
+        pointerEvents: 'none',
+    },
+    clarifierChip: {
+        position: 'relative',
+        borderRadius: '4px',
+        overflow: 'hidden',
+        border: '1px solid #B9A27A',
+        boxShadow: '0 2px 6px rgba(47, 42, 36, 0.2)',
+        background: '#F8F4EC',
+        flexShrink: 0,
+    },
+    spreadClarifiers: {
+        display: 'flex',
+        alignItems: 'center',
+        gap: '6px',
+    },
 };
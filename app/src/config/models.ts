@@ -0,0 +1,81 @@
+/**
+ * Model Config — Provider and model for each chat role
+ *
+ * Roles (spec/ai-architecture.md):
+ * - conversation: fast tool-calling model ("mini") that runs the chat loop
+ * - thinking: deep interpretation after request_interpretation
+ * - summarizer: compresses older history for /api/chat/summarize
+ *
+ * Env overrides (ROLE = CONVERSATION | THINKING | SUMMARIZER):
+ * - MODEL_<ROLE>_PROVIDER=anthropic | openai | local | mock (mock: NAME is a fixture, not in production)
+ * - MODEL_<ROLE>_NAME=gpt-5.2
+ * - MODEL_<ROLE>_MAX_TOKENS=2000
+ * - LOCAL_MODEL_BASE_URL, LOCAL_MODEL_API_KEY (OpenAI-compatible endpoint, e.g. Ollama or vLLM)
+ */
+
+export type ModelRole = 'conversation' | 'thinking' | 'summarizer';
+
+export type ModelProviderName = 'anthropic' | 'openai' | 'local' | 'mock';
+
+export interface ModelConfig {
+    provider: ModelProviderName;
+    model: string;
+    maxTokens: number;
+    temperature?: number; // Provider default when unset
+}
+
+const MODEL_PROVIDERS: ModelProviderName[] = ['anthropic', 'openai', 'local', 'mock'];
+
+const DEFAULT_MODELS: Record<ModelRole, ModelConfig> = {
+    conversation: { provider: 'anthropic', model: 'claude-haiku-4-5-20251001', maxTokens: 2000 },
+    thinking: { provider: 'openai', model: 'gpt-5.2', maxTokens: 2000, temperature: 0.7 },
+    summarizer: { provider: 'openai', model: 'gpt-5.2', maxTokens: 500, temperature: 0.5 },
+};
+
+/**
+ * Get a role's provider and model with env overrides applied
+ * An unknown provider name is ignored with a warning.
+ */
+export function getModelConfig(role: ModelRole): ModelConfig {
+    const defaults = DEFAULT_MODELS[role];
+    const prefix = `MODEL_${role.toUpperCase()}`;
+
+    let provider = defaults.provider;
+    const providerOverride = process.env[`${prefix}_PROVIDER`]?.trim();
+    if (providerOverride) {
+        if (MODEL_PROVIDERS.includes(providerOverride as ModelProviderName)) {
+            provider = providerOverride as ModelProviderName;
+        } else {
+            console.warn(`${prefix}_PROVIDER "${providerOverride}" is not one of ${MODEL_PROVIDERS.join(', ')}`);
+        }
+    }
+
+    const maxTokens = Number(process.env[`${prefix}_MAX_TOKENS`]);
+
+    return {
+        ...defaults,
+        provider,
+        // Another provider's default model name would not exist there, so it must be set explicitly
+        model: process.env[`${prefix}_NAME`]?.trim() || (provider === defaults.provider ? defaults.model : ''),
+        maxTokens: maxTokens > 0 ? maxTokens : defaults.maxTokens,
+    };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Local Endpoint
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface LocalModelEndpoint {
+    baseUrl: string;
+    apiKey: string; // Most local servers ignore it, but the client needs one
+}
+
+/**
+ * Get the OpenAI-compatible endpoint used by the `local` provider
+ */
+export function getLocalModelEndpoint(): LocalModelEndpoint {
+    return {
+        baseUrl: process.env.LOCAL_MODEL_BASE_URL?.trim().replace(/\/+$/, '') || 'http://localhost:11434/v1',
+        apiKey: process.env.LOCAL_MODEL_API_KEY || 'local',
+    };
+}
@@ -0,0 +1,72 @@
+/**
+ * Model Pricing — Token prices for usage cost estimates
+ *
+ * Prices are US dollars per million tokens, keyed by model name. Cost hints
+ * are in credits (CREDITS_PER_USD credits to the dollar, so by default one
+ * credit is one cent). `local` and `mock` models are free unless listed;
+ * any other model missing from the table gets no estimate.
+ *
+ * Env overrides:
+ * - MODEL_PRICES={"gpt-5.2":{"input":1.75,"output":14}} (merged over the defaults)
+ * - CREDITS_PER_USD=100
+ */
+
+import { AiUsage } from '@/types';
+
+export interface ModelPrice {
+    input: number; // USD per million input tokens
+    output: number; // USD per million output tokens
+}
+
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+    'claude-haiku-4-5-20251001': { input: 1, output: 5 },
+    'gpt-5.2': { input: 1.75, output: 14 },
+};
+
+const FREE_PROVIDERS = ['local', 'mock'];
+const DEFAULT_CREDITS_PER_USD = 100;
+
+function isModelPrice(value: unknown): value is ModelPrice {
+    const price = value as ModelPrice;
+    return typeof price?.input === 'number' && price.input >= 0
+        && typeof price.output === 'number' && price.output >= 0;
+}
+
+/**
+ * Get the price table with env overrides applied
+ * Malformed MODEL_PRICES entries are ignored with a warning.
+ */
+export function getModelPrices(): Record<string, ModelPrice> {
+    const raw = process.env.MODEL_PRICES?.trim();
+    if (!raw) return DEFAULT_PRICES;
+
+    let overrides: Record<string, unknown>;
+    try {
+        overrides = JSON.parse(raw);
+    } catch {
+        console.warn('MODEL_PRICES is not valid JSON; using the default prices');
+        return DEFAULT_PRICES;
+    }
+
+    const prices = { ...DEFAULT_PRICES };
+    for (const [model, price] of Object.entries(overrides ?? {})) {
+        if (isModelPrice(price)) {
+            prices[model] = price;
+        } else {
+            console.warn(`MODEL_PRICES entry for "${model}" needs numeric input and output prices`);
+        }
+    }
+    return prices;
+}
+
+/**
+ * Estimated credits for a model call, or undefined if the model has no price
+ */
+export function estimateCredits(provider: string, model: string, usage: Required<AiUsage>): number | undefined {
+    const price = getModelPrices()[model] ?? (FREE_PROVIDERS.includes(provider) ? { input: 0, output: 0 } : null);
+    if (!price) return undefined;
+
+    const creditsPerUsd = Number(process.env.CREDITS_PER_USD);
+    const usd = (usage.input_tokens * price.input + usage.output_tokens * price.output) / 1_000_000;
+    return usd * (creditsPerUsd > 0 ? creditsPerUsd : DEFAULT_CREDITS_PER_USD);
+}
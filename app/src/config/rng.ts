@@ -0,0 +1,153 @@
+/**
+ * RNG Config — Entropy provider cascade settings
+ *
+ * Order, enabled state and timeouts for the providers in the draw cascade.
+ * Providers are tried top to bottom; disabled providers are skipped.
+ * When all of them fail, the draw falls through to the interactive slot machine.
+ * The local `crypto` provider is off by default so the slot machine stays the
+ * last resort (spec/rng.md); enable it for non-interactive environments.
+ *
+ * Env overrides:
+ * - RNG_PROVIDER_ORDER=anu_qrng,random_org,crypto (listed providers are enabled, in that order)
+ * - RNG_TIMEOUT_MS_<NAME>=5000 (e.g. RNG_TIMEOUT_MS_ANU_QRNG)
+ * - ANU_QRNG_BASE_URL, RANDOM_ORG_BASE_URL (e.g. the offline stand-in, scripts/rng-standin)
+ * - RANDOM_ORG_PUBLIC_KEY (PEM key or certificate that signs random.org batches; "\n" escapes allowed)
+ * - RNG_POOL_ENABLED=false, RNG_POOL_TARGET_SIZE, RNG_POOL_LOW_WATER_MARK, RNG_POOL_BATCH_SIZE
+ * - RNG_BREAKER_WINDOW, RNG_BREAKER_MIN_REQUESTS, RNG_BREAKER_FAILURE_RATE, RNG_BREAKER_COOLDOWN_MS
+ */
+
+export interface EntropyProviderConfig {
+    name: string;
+    enabled: boolean;
+    timeoutMs: number;
+}
+
+const DEFAULT_PROVIDERS: EntropyProviderConfig[] = [
+    { name: 'anu_qrng', enabled: true, timeoutMs: 5000 },
+    { name: 'random_org', enabled: true, timeoutMs: 5000 },
+    { name: 'crypto', enabled: false, timeoutMs: 1000 },
+];
+
+/**
+ * Get the provider cascade config with env overrides applied
+ */
+export function getRngProviderConfig(): EntropyProviderConfig[] {
+    const withTimeouts = DEFAULT_PROVIDERS.map(config => {
+        const override = Number(process.env[`RNG_TIMEOUT_MS_${config.name.toUpperCase()}`]);
+        return {
+            ...config,
+            timeoutMs: override > 0 ? override : config.timeoutMs,
+        };
+    });
+
+    const order = process.env.RNG_PROVIDER_ORDER
+        ?.split(',')
+        .map(name => name.trim())
+        .filter(Boolean);
+
+    if (!order || order.length === 0) {
+        return withTimeouts;
+    }
+
+    const listed = order
+        .map(name => withTimeouts.find(c => c.name === name) ?? { name, enabled: true, timeoutMs: 5000 })
+        .map(config => ({ ...config, enabled: true }));
+    const unlisted = withTimeouts
+        .filter(c => !order.includes(c.name))
+        .map(config => ({ ...config, enabled: false }));
+
+    return [...listed, ...unlisted];
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Provider Endpoints
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface ProviderEndpoint {
+    baseUrl: string; // No trailing slash
+    custom: boolean; // Overridden by env (a stand-in does not need an API key)
+}
+
+const DEFAULT_BASE_URLS: Record<'anu_qrng' | 'random_org', string> = {
+    anu_qrng: 'https://api.quantumnumbers.anu.edu.au',
+    random_org: 'https://api.random.org',
+};
+
+/**
+ * Get a remote provider's base URL (env: ANU_QRNG_BASE_URL, RANDOM_ORG_BASE_URL)
+ */
+export function getProviderEndpoint(name: 'anu_qrng' | 'random_org'): ProviderEndpoint {
+    const override = process.env[`${name.toUpperCase()}_BASE_URL`]?.trim();
+    return override
+        ? { baseUrl: override.replace(/\/+$/, ''), custom: true }
+        : { baseUrl: DEFAULT_BASE_URLS[name], custom: false };
+}
+
+/**
+ * Get the PEM key random.org batches must be signed with
+ */
+export function getRandomOrgPublicKey(): string | undefined {
+    return process.env.RANDOM_ORG_PUBLIC_KEY?.replace(/\\n/g, '\n').trim() || undefined;
+}
+
+/**
+ * Warn when random.org is in the cascade but cannot verify its batches
+ * Called once at server startup (src/instrumentation.ts).
+ */
+export function warnIfRandomOrgUnverifiable(): void {
+    const randomOrg = getRngProviderConfig().find(c => c.name === 'random_org');
+    if (randomOrg?.enabled && !getRandomOrgPublicKey()) {
+        console.warn('RANDOM_ORG_PUBLIC_KEY not configured; random.org is skipped in the RNG cascade until it is set');
+    }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Entropy Pool
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface EntropyPoolConfig {
+    enabled: boolean;
+    targetSize: number; // Refill stops once the pool holds this many words
+    lowWaterMark: number; // A draw that leaves fewer words than this triggers a refill
+    batchSize: number; // Words requested per provider fetch (ANU max 1024)
+}
+
+function numberFromEnv(name: string, fallback: number): number {
+    const value = Number(process.env[name]);
+    return value > 0 ? value : fallback;
+}
+
+/**
+ * Get the entropy pool config with env overrides applied
+ */
+export function getEntropyPoolConfig(): EntropyPoolConfig {
+    return {
+        enabled: process.env.RNG_POOL_ENABLED !== 'false',
+        targetSize: numberFromEnv('RNG_POOL_TARGET_SIZE', 2048),
+        lowWaterMark: numberFromEnv('RNG_POOL_LOW_WATER_MARK', 512),
+        batchSize: Math.min(numberFromEnv('RNG_POOL_BATCH_SIZE', 1024), 1024),
+    };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Circuit Breaker
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface CircuitBreakerConfig {
+    windowSize: number; // Recent fetch outcomes kept per provider
+    minRequests: number; // Outcomes needed in the window before the circuit can open
+    failureRateThreshold: number; // Open when the window's failure rate reaches this (0..1)
+    cooldownMs: number; // How long an open circuit waits before a half-open trial
+}
+
+/**
+ * Get the per-provider circuit breaker config with env overrides applied
+ */
+export function getCircuitBreakerConfig(): CircuitBreakerConfig {
+    return {
+        windowSize: numberFromEnv('RNG_BREAKER_WINDOW', 10),
+        minRequests: numberFromEnv('RNG_BREAKER_MIN_REQUESTS', 3),
+        failureRateThreshold: Math.min(numberFromEnv('RNG_BREAKER_FAILURE_RATE', 0.5), 1),
+        cooldownMs: numberFromEnv('RNG_BREAKER_COOLDOWN_MS', 30000),
+    };
+}
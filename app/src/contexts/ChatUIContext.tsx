@@ -1,7 +1,7 @@
 'use client';
 
 import React, { createContext, useContext, useState, useEffect, ReactNode, useCallback } from 'react';
-import { SpreadWithCards } from '@/types';
+import { ReadingAi, SpreadWithCards } from '@/types';
 
 // Spread view states: collapsed = header only, compact = small spread, expanded = full spread
 export type SpreadViewMode = 'collapsed' | 'compact' | 'expanded';
@@ -18,6 +18,8 @@ interface ChatUIContextType {
     // Actions
     setSpreadViewMode: (mode: SpreadViewMode) => void;
     addSpread: (spread: SpreadWithCards) => void;
+    updateSpread: (spread: SpreadWithCards) => void;
+    updateReadingAi: (readingId: string, update: (ai: ReadingAi) => ReadingAi) => void;
     navigateSpread: (direction: 'prev' | 'next') => void;
     setTypingMode: (isTyping: boolean) => void;
     contractMockSpread: () => void;
@@ -54,6 +56,16 @@ export function ChatUIProvider({ children }: { children: ReactNode }) {
         setShowMockSpread(false); // Hide mock when real spread is added
     }, []);
 
+    // Replace a spread in history (matched by reading_id), e.g. after a clarifier is drawn
+    const updateSpread = useCallback((spread: SpreadWithCards) => {
+        setSpreadHistory(prev => prev.map(s => (s.reading_id === spread.reading_id ? spread : s)));
+    }, []);
+
+    // Update the AI results (interpretations) of a spread in history
+    const updateReadingAi = useCallback((readingId: string, update: (ai: ReadingAi) => ReadingAi) => {
+        setSpreadHistory(prev => prev.map(s => (s.reading_id === readingId ? { ...s, ai: update(s.ai ?? {}) } : s)));
+    }, []);
+
     // Navigate between spreads
     const navigateSpread = useCallback((direction: 'prev' | 'next') => {
         setCurrentSpreadIndex(prev => {
@@ -84,6 +96,8 @@ export function ChatUIProvider({ children }: { children: ReactNode }) {
             showMockSpread,
             setSpreadViewMode,
             addSpread,
+            updateSpread,
+            updateReadingAi,
             navigateSpread,
             setTypingMode: setIsTyping,
             contractMockSpread,
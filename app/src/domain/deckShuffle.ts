@@ -0,0 +1,135 @@
+/**
+ * Deck Shuffle — Simulated physical shuffling of an ordered 78-card deck
+ *
+ * Pure implementation of the shuffle draw mode in spec/rng.md. Every random
+ * choice comes from a stream of uint16 entropy words, so a shuffle is fully
+ * described by its words (and by the recorded steps).
+ *
+ * Decks are ordered top first. Orientation only changes when an overhand
+ * packet is turned 180°, as with a real deck.
+ *
+ * A riffle can also make a card jump out of the deck. Jumpers are flagged where
+ * they land (CardDraw.jumper) until the next shuffle.
+ */
+
+import { CardDraw, ShuffleStep } from '@/types';
+import { TOTAL_CARDS, UINT16_MAX } from './rngMapping';
+
+export type WordSource = () => number;
+
+export const RIFFLES_PER_SHUFFLE = 7;
+export const OVERHAND_MAX_PACKET = 10;
+export const JUMPER_ODDS = 4; // Each riffle has a 1 in JUMPER_ODDS chance of a jumper
+
+/**
+ * A fresh deck in card order, all upright
+ */
+export function createOrderedDeck(): CardDraw[] {
+    return Array.from({ length: TOTAL_CARDS }, (_, cardId) => ({ cardId, reversed: false }));
+}
+
+/**
+ * Uniform integer in [0, bound) by rejection sampling (bound <= 65536)
+ */
+export function randomBelow(bound: number, nextWord: WordSource): number {
+    const limit = Math.floor(UINT16_MAX / bound) * bound;
+    let word = nextWord();
+    while (word >= limit) {
+        word = nextWord();
+    }
+    return word % bound;
+}
+
+/**
+ * Riffle shuffle (Gilbert–Shannon–Reeds model)
+ * The split is binomial(n, 1/2); cards then drop from each half with
+ * probability proportional to the half's remaining size. Then one card may jump.
+ */
+export function riffle(deck: CardDraw[], nextWord: WordSource): { deck: CardDraw[]; step: ShuffleStep } {
+    let split = 0;
+    for (let bit = 0; bit < deck.length; bit += 16) {
+        const word = nextWord();
+        for (let i = 0; i < 16 && bit + i < deck.length; i++) {
+            split += (word >> i) & 1;
+        }
+    }
+
+    const top = deck.slice(0, split);
+    const bottom = deck.slice(split);
+    const shuffled: CardDraw[] = [];
+
+    while (top.length > 0 && bottom.length > 0) {
+        const fromTop = randomBelow(top.length + bottom.length, nextWord) < top.length;
+        shuffled.push((fromTop ? top : bottom).shift() as CardDraw);
+    }
+    shuffled.push(...top, ...bottom);
+
+    if (randomBelow(JUMPER_ODDS, nextWord) === 0) {
+        const index = randomBelow(shuffled.length, nextWord);
+        shuffled[index] = { ...shuffled[index], jumper: true };
+        return { deck: shuffled, step: { type: 'riffle', split, jumped: shuffled[index].cardId } };
+    }
+
+    return { deck: shuffled, step: { type: 'riffle', split } };
+}
+
+/**
+ * Overhand shuffle
+ * Packets of 1..OVERHAND_MAX_PACKET cards move from the top onto a new pile,
+ * reversing packet order. Each packet is turned 180° with probability 1/2,
+ * which reverses its order and flips every card's orientation.
+ */
+export function overhand(deck: CardDraw[], nextWord: WordSource): { deck: CardDraw[]; step: ShuffleStep } {
+    const remaining = [...deck];
+    let pile: CardDraw[] = [];
+    const packets: number[] = [];
+    const rotated: number[] = [];
+
+    while (remaining.length > 0) {
+        const size = Math.min(randomBelow(OVERHAND_MAX_PACKET, nextWord) + 1, remaining.length);
+        let packet = remaining.splice(0, size);
+
+        if (nextWord() & 1) {
+            packet = packet.reverse().map(card => ({ ...card, reversed: !card.reversed }));
+            rotated.push(packets.length);
+        }
+
+        packets.push(size);
+        pile = [...packet, ...pile];
+    }
+
+    return { deck: pile, step: { type: 'overhand', packets, rotated } };
+}
+
+/**
+ * Cut: move the top `position` cards to the bottom
+ */
+export function cut(deck: CardDraw[], position: number): { deck: CardDraw[]; step: ShuffleStep } {
+    return {
+        deck: [...deck.slice(position), ...deck.slice(0, position)],
+        step: { type: 'cut', position },
+    };
+}
+
+/**
+ * Full shuffle: riffles, one overhand pass, then a random cut
+ * Jumper flags from the previous shuffle are cleared first.
+ */
+export function shuffleDeck(deck: CardDraw[], nextWord: WordSource): { deck: CardDraw[]; steps: ShuffleStep[] } {
+    const steps: ShuffleStep[] = [];
+    let current = deck.map(({ cardId, reversed }) => ({ cardId, reversed }));
+
+    for (let i = 0; i < RIFFLES_PER_SHUFFLE; i++) {
+        const result = riffle(current, nextWord);
+        current = result.deck;
+        steps.push(result.step);
+    }
+
+    const mixed = overhand(current, nextWord);
+    steps.push(mixed.step);
+
+    const finalCut = cut(mixed.deck, randomBelow(mixed.deck.length - 1, nextWord) + 1);
+    steps.push(finalCut.step);
+
+    return { deck: finalCut.deck, steps };
+}
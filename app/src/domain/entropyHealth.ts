@@ -0,0 +1,140 @@
+/**
+ * Entropy Health Tests — Lightweight checks on a provider batch before use
+ *
+ * Modeled on the NIST SP 800-90B continuous health tests:
+ * - Repetition count: the same value repeated too many times in a row
+ * - Adaptive proportion: one value taking too large a share of a window
+ * - Chi-square: the high bits of the uint16 values are roughly uniform
+ *
+ * Cutoffs assume a conservative 8 bits of min-entropy per uint16 sample and a
+ * false-alarm rate of about 2^-20 for the NIST tests.
+ */
+
+import { chiSquarePValue, chiSquareStatistic } from './statistics';
+
+// Repetition count cutoff: C = 1 + ceil(20 / H) with H = 8
+export const REPETITION_CUTOFF = 4;
+
+// Adaptive proportion: window W = 512, cutoff for H = 8 (SP 800-90B table 2)
+export const ADAPTIVE_WINDOW = 512;
+export const ADAPTIVE_CUTOFF = 13;
+
+// Chi-square runs once a batch can fill at least 2 bins with 16 samples each
+export const CHI_SQUARE_MIN_SAMPLES = 32;
+export const CHI_SQUARE_MIN_EXPECTED = 16;
+export const CHI_SQUARE_MAX_BINS = 16;
+export const CHI_SQUARE_ALPHA = 0.001;
+
+export type HealthTestName = 'range' | 'repetition_count' | 'adaptive_proportion' | 'chi_square';
+
+export interface HealthTestResult {
+    test: HealthTestName;
+    passed: boolean;
+    skipped?: boolean;
+    detail: string;
+}
+
+export interface HealthReport {
+    passed: boolean;
+    results: HealthTestResult[];
+}
+
+/**
+ * Run every health test on a batch of uint16 words
+ */
+export function runEntropyHealthTests(words: number[]): HealthReport {
+    const range = rangeTest(words);
+    // The statistical tests assume well-formed input
+    const results = range.passed
+        ? [range, repetitionCountTest(words), adaptiveProportionTest(words), chiSquareTest(words)]
+        : [range];
+
+    return {
+        passed: results.every(r => r.passed),
+        results,
+    };
+}
+
+/**
+ * Summarize the failing tests of a report
+ */
+export function describeHealthFailure(report: HealthReport): string {
+    return report.results
+        .filter(r => !r.passed)
+        .map(r => `${r.test}: ${r.detail}`)
+        .join('; ');
+}
+
+function rangeTest(words: number[]): HealthTestResult {
+    const invalid = words.findIndex(w => !Number.isInteger(w) || w < 0 || w > 65535);
+    if (words.length === 0) {
+        return { test: 'range', passed: false, detail: 'empty batch' };
+    }
+    return invalid === -1
+        ? { test: 'range', passed: true, detail: `${words.length} uint16 values` }
+        : { test: 'range', passed: false, detail: `value ${String(words[invalid])} at index ${invalid} is not a uint16` };
+}
+
+function repetitionCountTest(words: number[]): HealthTestResult {
+    let longestRun = 1;
+    let run = 1;
+
+    for (let i = 1; i < words.length; i++) {
+        run = words[i] === words[i - 1] ? run + 1 : 1;
+        longestRun = Math.max(longestRun, run);
+    }
+
+    return {
+        test: 'repetition_count',
+        passed: longestRun < REPETITION_CUTOFF,
+        detail: `longest run ${longestRun} (cutoff ${REPETITION_CUTOFF})`,
+    };
+}
+
+function adaptiveProportionTest(words: number[]): HealthTestResult {
+    let worst = 0;
+
+    for (let start = 0; start < words.length; start += ADAPTIVE_WINDOW) {
+        const window = words.slice(start, start + ADAPTIVE_WINDOW);
+        const count = window.filter(w => w === window[0]).length;
+        worst = Math.max(worst, count);
+    }
+
+    return {
+        test: 'adaptive_proportion',
+        passed: worst < ADAPTIVE_CUTOFF,
+        detail: `max count ${worst} per ${ADAPTIVE_WINDOW}-sample window (cutoff ${ADAPTIVE_CUTOFF})`,
+    };
+}
+
+function chiSquareTest(words: number[]): HealthTestResult {
+    if (words.length < CHI_SQUARE_MIN_SAMPLES) {
+        return {
+            test: 'chi_square',
+            passed: true,
+            skipped: true,
+            detail: `skipped: ${words.length} samples (< ${CHI_SQUARE_MIN_SAMPLES})`,
+        };
+    }
+
+    // Bin on the top bits: power-of-two bin count keeps every bin the same width
+    let bins = 2;
+    while (bins * 2 <= CHI_SQUARE_MAX_BINS && words.length / (bins * 2) >= CHI_SQUARE_MIN_EXPECTED) {
+        bins *= 2;
+    }
+    const shift = 16 - Math.log2(bins);
+
+    const observed = new Array<number>(bins).fill(0);
+    for (const w of words) {
+        observed[w >> shift]++;
+    }
+
+    const statistic = chiSquareStatistic(observed);
+    const pValue = chiSquarePValue(statistic, bins - 1);
+
+    return {
+        test: 'chi_square',
+        passed: pValue >= CHI_SQUARE_ALPHA,
+        detail: `χ²=${statistic.toFixed(2)}, df=${bins - 1}, p=${pValue.toFixed(4)} (alpha ${CHI_SQUARE_ALPHA})`,
+    };
+}
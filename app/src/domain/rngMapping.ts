@@ -0,0 +1,155 @@
+/**
+ * RNG Mapping — Uniform mapping from uint16 entropy words to card draws
+ *
+ * Pure implementation of the rejection sampling and uniqueness rules in spec/rng.md.
+ * Shared by every entropy source (providers, slot-machine taps).
+ */
+
+import { CardDraw, ReversalPolicy } from '@/types';
+
+// Constants from spec
+export const TOTAL_CARDS = 78;
+export const TOTAL_ORIENTED_STATES = 156; // 78 cards × 2 orientations
+export const UINT16_MAX = 65536;
+export const REJECTION_LIMIT = Math.floor(UINT16_MAX / TOTAL_ORIENTED_STATES) * TOTAL_ORIENTED_STATES;
+
+// Reversal probability p is applied in steps of 1/1000
+export const REVERSAL_PROBABILITY_STEPS = 1000;
+export const ORIENTATION_REJECTION_LIMIT = Math.floor(UINT16_MAX / REVERSAL_PROBABILITY_STEPS) * REVERSAL_PROBABILITY_STEPS;
+
+export interface DrawOptions {
+    allowDuplicates: boolean;
+    allowReversals: boolean;
+    reversalPolicy?: ReversalPolicy; // Overrides allowReversals
+    cardPool?: number[]; // Card ids to draw from (ascending); full deck if omitted
+}
+
+export interface DrawState {
+    draws: CardDraw[];
+    usedBaseCards: Set<number>;
+    words: number[]; // Every word consumed, accepted or not (for receipts)
+    pendingCardId: number | null; // Probability policy: card picked, orientation word still to come
+}
+
+export type MappingResult =
+    | { accepted: true; draw: CardDraw }
+    | { accepted: false; reason: 'out_of_range' | 'duplicate' }
+    | { accepted: false; reason: 'awaiting_orientation'; cardId: number };
+
+export function createDrawState(): DrawState {
+    return { draws: [], usedBaseCards: new Set<number>(), words: [], pendingCardId: null };
+}
+
+/**
+ * Effective reversal policy for a draw
+ * Without an explicit policy, allowReversals means uniform and its absence means none.
+ */
+export function getReversalPolicy(options: Pick<DrawOptions, 'allowReversals' | 'reversalPolicy'>): ReversalPolicy {
+    return options.reversalPolicy ?? (options.allowReversals ? { type: 'uniform' } : { type: 'none' });
+}
+
+/**
+ * Orientation from one word for reversal probability p
+ * Returns null if the word is rejected (num >= ORIENTATION_REJECTION_LIMIT).
+ */
+export function reversedWithProbability(num: number, p: number): boolean | null {
+    if (num >= ORIENTATION_REJECTION_LIMIT) {
+        return null;
+    }
+    return num % REVERSAL_PROBABILITY_STEPS < Math.round(p * REVERSAL_PROBABILITY_STEPS);
+}
+
+/**
+ * Map one entropy word onto the draw state
+ * Accepted draws are appended to state.draws.
+ */
+export function mapEntropyWord(num: number, state: DrawState, options: DrawOptions): MappingResult {
+    state.words.push(num);
+
+    const policy = getReversalPolicy(options);
+    if (policy.type === 'probability') {
+        return mapWithReversalProbability(num, state, options, policy.p);
+    }
+
+    // A pool of P cards has 2P oriented states; the full deck is P = 78
+    const poolSize = options.cardPool?.length ?? TOTAL_CARDS;
+    const orientedStates = poolSize * 2;
+    const rejectionLimit = Math.floor(UINT16_MAX / orientedStates) * orientedStates;
+
+    // Rejection sampling for unbiased distribution
+    if (num >= rejectionLimit) {
+        return { accepted: false, reason: 'out_of_range' };
+    }
+
+    const orientedCard = num % orientedStates;
+    const poolIndex = orientedCard % poolSize;
+    const baseCardId = options.cardPool ? options.cardPool[poolIndex] : poolIndex;
+    const isReversed = orientedCard >= poolSize;
+
+    // Check uniqueness if required
+    if (!options.allowDuplicates && state.usedBaseCards.has(baseCardId)) {
+        return { accepted: false, reason: 'duplicate' };
+    }
+
+    return acceptDraw(state, options, {
+        cardId: baseCardId,
+        reversed: policy.type === 'uniform' ? isReversed : false,
+    });
+}
+
+/**
+ * Probability policy: two words per card
+ * The card word picks from P states (no orientation); the orientation word
+ * that follows is reversed with probability p.
+ */
+function mapWithReversalProbability(num: number, state: DrawState, options: DrawOptions, p: number): MappingResult {
+    if (state.pendingCardId !== null) {
+        const reversed = reversedWithProbability(num, p);
+        if (reversed === null) {
+            return { accepted: false, reason: 'out_of_range' };
+        }
+
+        const cardId = state.pendingCardId;
+        state.pendingCardId = null;
+        return acceptDraw(state, options, { cardId, reversed });
+    }
+
+    const poolSize = options.cardPool?.length ?? TOTAL_CARDS;
+    const rejectionLimit = Math.floor(UINT16_MAX / poolSize) * poolSize;
+    if (num >= rejectionLimit) {
+        return { accepted: false, reason: 'out_of_range' };
+    }
+
+    const poolIndex = num % poolSize;
+    const baseCardId = options.cardPool ? options.cardPool[poolIndex] : poolIndex;
+    if (!options.allowDuplicates && state.usedBaseCards.has(baseCardId)) {
+        return { accepted: false, reason: 'duplicate' };
+    }
+
+    state.pendingCardId = baseCardId;
+    return { accepted: false, reason: 'awaiting_orientation', cardId: baseCardId };
+}
+
+function acceptDraw(state: DrawState, options: DrawOptions, draw: CardDraw): MappingResult {
+    state.draws.push(draw);
+
+    if (!options.allowDuplicates) {
+        state.usedBaseCards.add(draw.cardId);
+    }
+
+    return { accepted: true, draw };
+}
+
+/**
+ * Replay a recorded word sequence through the mapping until it has n cards
+ * Used to verify that a receipt's words produce exactly its draws. Committed
+ * words left over after the last card are not mapped.
+ */
+export function replayDraw(words: number[], options: DrawOptions, n: number): CardDraw[] {
+    const state = createDrawState();
+    for (const num of words) {
+        if (state.draws.length >= n) break;
+        mapEntropyWord(num, state, options);
+    }
+    return state.draws;
+}
@@ -0,0 +1,103 @@
+/**
+ * Statistics — Small numeric helpers for entropy and fairness checks
+ */
+
+import { ChiSquareResult } from '@/types';
+
+/**
+ * Natural log of the gamma function (Lanczos approximation)
+ */
+function logGamma(x: number): number {
+    const coefficients = [
+        76.18009172947146, -86.50532032941677, 24.01409824083091,
+        -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5,
+    ];
+
+    let y = x;
+    const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+    let series = 1.000000000190015;
+    for (const c of coefficients) {
+        series += c / ++y;
+    }
+
+    return -tmp + Math.log(2.5066282746310005 * series / x);
+}
+
+/**
+ * Regularized upper incomplete gamma function Q(a, x)
+ * Series expansion below a + 1, continued fraction above.
+ */
+function upperIncompleteGamma(a: number, x: number): number {
+    if (x <= 0) return 1;
+
+    const lnPrefix = -x + a * Math.log(x) - logGamma(a);
+
+    if (x < a + 1) {
+        let term = 1 / a;
+        let sum = term;
+        for (let n = 1; n < 500; n++) {
+            term *= x / (a + n);
+            sum += term;
+            if (Math.abs(term) < Math.abs(sum) * 1e-12) break;
+        }
+        return 1 - sum * Math.exp(lnPrefix);
+    }
+
+    // Lentz's method
+    const tiny = 1e-300;
+    let b = x + 1 - a;
+    let c = 1 / tiny;
+    let d = 1 / b;
+    let h = d;
+    for (let i = 1; i < 500; i++) {
+        const an = -i * (i - a);
+        b += 2;
+        d = an * d + b;
+        if (Math.abs(d) < tiny) d = tiny;
+        c = b + an / c;
+        if (Math.abs(c) < tiny) c = tiny;
+        d = 1 / d;
+        const delta = d * c;
+        h *= delta;
+        if (Math.abs(delta - 1) < 1e-12) break;
+    }
+    return Math.exp(lnPrefix) * h;
+}
+
+/**
+ * Chi-square statistic for observed counts against equal expected counts
+ */
+export function chiSquareStatistic(observed: number[]): number {
+    const total = observed.reduce((sum, count) => sum + count, 0);
+    if (total === 0 || observed.length === 0) return 0;
+
+    const expected = total / observed.length;
+    return observed.reduce((sum, count) => sum + (count - expected) ** 2 / expected, 0);
+}
+
+/**
+ * Upper-tail p-value of a chi-square statistic with `df` degrees of freedom
+ */
+export function chiSquarePValue(statistic: number, df: number): number {
+    if (df <= 0) return 1;
+    return Math.min(1, Math.max(0, upperIncompleteGamma(df / 2, statistic / 2)));
+}
+
+/**
+ * Goodness of fit of observed counts against per-category expected counts
+ * Categories expected to be empty are skipped; returns null with fewer than two left.
+ */
+export function chiSquareTest(observed: number[], expected: number[]): ChiSquareResult | null {
+    let statistic = 0;
+    let categories = 0;
+
+    for (let i = 0; i < observed.length; i++) {
+        if (expected[i] <= 0) continue;
+        statistic += (observed[i] - expected[i]) ** 2 / expected[i];
+        categories++;
+    }
+    if (categories < 2) return null;
+
+    const df = categories - 1;
+    return { chi_square: statistic, df, p_value: chiSquarePValue(statistic, df) };
+}
@@ -1,8 +1,21 @@
 'use client';
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useRef, useEffect } from 'react';
 import { useChatUI } from '@/contexts/ChatUIContext';
-import { ChatStreamEvent, SpreadWithCards, SpreadLedgerEntry, Reading } from '@/types';
+import {
+    ChatStreamEvent,
+    SpreadLedgerEntry,
+    Reading,
+    SlotMachinePending,
+    SlotMachineTap,
+    SlotMachineTapResponse,
+    ManualReadingRequest,
+    ManualReadingResponse,
+    ReadingPreferences,
+    DeckStatus,
+    DeckActionRequest,
+} from '@/types';
+import { parseSSEMessage, SSEMessage } from '@/lib/sse';
 
 export interface Message {
     id: string;
@@ -10,21 +23,96 @@ export interface Message {
     content: string;
     toolCalls?: Array<{ id: string; name: string; arguments: unknown }>;
     toolResults?: Array<{ name: string; result: unknown }>;
+    interrupted?: boolean; // Stopped by the user before the reply finished
+    commitment?: { draw_id: string; commitment: string }; // Announced before the draw is revealed
+}
+
+export interface SlotMachineState extends SlotMachinePending {
+    taps: SlotMachineTap[];
+    isSubmitting: boolean;
 }
 
 const SUMMARIZATION_THRESHOLD = 20;
 const KEEP_RECENT = 3;
+const MAX_RESUME_ATTEMPTS = 3; // Reconnects in a row without receiving an event
+const RESUME_DELAY_MS = 1000; // Multiplied by the attempt number
 
 function generateId() {
     return Date.now().toString(36) + Math.random().toString(36).substring(2);
 }
 
-export function useChat() {
-    const { addSpread, activeSpread, contractMockSpread } = useChatUI();
+function delay(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const timer = setTimeout(resolve, ms);
+        signal.addEventListener('abort', () => {
+            clearTimeout(timer);
+            reject(signal.reason);
+        }, { once: true });
+    });
+}
+
+/**
+ * Read an SSE response to its end, passing on each message
+ */
+async function readEventStream(response: Response, onMessage: (message: SSEMessage) => void) {
+    const reader = response.body?.getReader();
+    if (!reader) throw new Error('No response body');
+
+    const decoder = new TextDecoder();
+    let buffer = '';
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const blocks = buffer.split('\n\n');
+        buffer = blocks.pop() || '';
+
+        for (const block of blocks) {
+            const message = parseSSEMessage(block);
+            if (message) onMessage(message);
+        }
+    }
+}
+
+/**
+ * Stop a turn on the server; keepalive lets it go out while the page unloads
+ */
+function cancelChatTurn(turnId: string | null) {
+    if (!turnId) return;
+    fetch('/api/chat/cancel', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ turn_id: turnId }),
+        keepalive: true,
+    }).catch(error => console.error('Failed to cancel turn:', error));
+}
+
+const DEFAULT_PREFERENCES: ReadingPreferences = {
+    drawMode: 'rng',
+    allowReversals: true,
+    allowDuplicates: false,
+};
+
+export function useChat(preferences: ReadingPreferences = DEFAULT_PREFERENCES) {
+    const { addSpread, updateSpread, updateReadingAi, activeSpread, contractMockSpread } = useChatUI();
+    const [sessionId, setSessionId] = useState(generateId); // Keys the server-side session deck
     const [messages, setMessages] = useState<Message[]>([]);
     const [isLoading, setIsLoading] = useState(false);
     const [spreadLedger, setSpreadLedger] = useState<SpreadLedgerEntry[]>([]);
     const [conversationSummary, setConversationSummary] = useState<string | null>(null);
+    const [slotMachine, setSlotMachine] = useState<SlotMachineState | null>(null);
+    const [deck, setDeck] = useState<DeckStatus | null>(null);
+    const [deckError, setDeckError] = useState<string | null>(null);
+    const [isDeckBusy, setIsDeckBusy] = useState(false);
+    const abortControllerRef = useRef<AbortController | null>(null); // For the reading in flight
+    const turnIdRef = useRef<string | null>(null); // Server-side turn of the reading in flight
+
+    // Stop any reading in flight when the chat unmounts (e.g. the user navigates away)
+    useEffect(() => () => {
+        abortControllerRef.current?.abort();
+        cancelChatTurn(turnIdRef.current);
+    }, []);
 
     // Summarize older messages if threshold exceeded
     const summarizeIfNeeded = useCallback(async (allMessages: Message[]) => {
@@ -44,6 +132,7 @@ export function useChat() {
                     existingSummary: conversationSummary,
                     threshold: SUMMARIZATION_THRESHOLD,
                     keepRecent: KEEP_RECENT,
+                    sessionId, // Adds the summarizer's tokens to the session's usage
                 }),
             });
 
@@ -74,7 +163,48 @@ export function useChat() {
         }
 
         return { summary: conversationSummary, messagesToSend: chatMessages.slice(-20) };
-    }, [conversationSummary]);
+    }, [conversationSummary, sessionId]);
+
+    // Fetch the session deck's state (shuffle draw mode)
+    const refreshDeck = useCallback(async () => {
+        try {
+            const response = await fetch(`/api/rng/deck?session_id=${encodeURIComponent(sessionId)}`);
+            if (!response.ok) throw new Error(`HTTP ${response.status}`);
+            setDeck(await response.json() as DeckStatus);
+        } catch (error) {
+            console.error('Deck status error:', error);
+        }
+    }, [sessionId]);
+
+    // Shuffle or cut the session deck
+    const updateDeck = useCallback(async (action: DeckActionRequest['action'], position?: number) => {
+        setIsDeckBusy(true);
+        setDeckError(null);
+
+        try {
+            const request: DeckActionRequest = { session_id: sessionId, action, position };
+            const response = await fetch('/api/rng/deck', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(request),
+            });
+
+            const result = await response.json();
+            if (!response.ok) {
+                setDeckError(result.error || `HTTP ${response.status}`);
+                return;
+            }
+            setDeck(result as DeckStatus);
+        } catch (error) {
+            console.error('Deck update error:', error);
+            setDeckError('Could not reach the deck. Please try again.');
+        } finally {
+            setIsDeckBusy(false);
+        }
+    }, [sessionId]);
+
+    const shuffleDeck = useCallback(() => updateDeck('shuffle'), [updateDeck]);
+    const cutDeck = useCallback((position: number) => updateDeck('cut', position), [updateDeck]);
 
     const sendMessage = useCallback(async (content: string) => {
         if (!content.trim() || isLoading) return;
@@ -96,9 +226,14 @@ export function useChat() {
         setMessages(newMessages);
         setIsLoading(true);
 
+        const abortController = new AbortController();
+        abortControllerRef.current = abortController;
+        let assistantId: string | null = null;
+
         try {
             // Check if we need to summarize before sending
             const { summary, messagesToSend } = await summarizeIfNeeded(newMessages);
+            abortController.signal.throwIfAborted();
 
             // Prepare api messages
             const apiMessages = Array.isArray(messagesToSend)
@@ -115,150 +250,313 @@ export function useChat() {
                     activeSpread,
                     spreadLedger,
                     conversationSummary: summary,
+                    sessionId,
+                    preferences,
                 }),
+                signal: abortController.signal,
             });
 
             if (!response.ok) throw new Error(`HTTP ${response.status}`);
 
             // Add placeholder for assistant
+            assistantId = generateId();
             setMessages(prev => [...prev, {
-                id: generateId(),
+                id: assistantId!,
                 role: 'assistant',
                 content: '',
                 toolCalls: [],
                 toolResults: []
             }]);
 
-            const reader = response.body?.getReader();
-            const decoder = new TextDecoder();
-            if (!reader) throw new Error('No response body');
-
-            let buffer = '';
-
-            while (true) {
-                const { done, value } = await reader.read();
-                if (done) break;
-
-                buffer += decoder.decode(value, { stream: true });
-                const lines = buffer.split('\n\n');
-                buffer = lines.pop() || '';
-
-                for (const line of lines) {
-                    if (!line.startsWith('data: ')) continue;
-                    try {
-                        const event = JSON.parse(line.slice(6)) as ChatStreamEvent;
-
-                        switch (event.type) {
-                            case 'text':
-                                setMessages(prev => {
-                                    const updated = [...prev];
-                                    const lastIdx = updated.findLastIndex(m => m.role === 'assistant');
-                                    if (lastIdx !== -1) {
-                                        updated[lastIdx] = {
-                                            ...updated[lastIdx],
-                                            content: updated[lastIdx].content + event.content
-                                        };
-                                    }
-                                    return updated;
-                                });
-                                break;
-
-                            case 'tool_call':
-                                // Add visible indicator for tool calls
-                                const toolDisplayName = event.name === 'request_interpretation'
-                                    ? '🔮 Consulting deeper wisdom...'
-                                    : event.name === 'draw_cards'
-                                        ? '🎴 Drawing cards...'
-                                        : event.name === 'list_spreads'
-                                            ? '📋 Reviewing spreads...'
-                                            : `🔧 ${event.name}`;
-
-                                setMessages(prev => [...prev, {
-                                    id: generateId(),
-                                    role: 'system',
-                                    content: toolDisplayName
-                                }]);
-
-                                setMessages(prev => {
-                                    const updated = [...prev];
-                                    const lastIdx = updated.findLastIndex(m => m.role === 'assistant');
-                                    if (lastIdx !== -1) {
-                                        const last = updated[lastIdx];
-                                        updated[lastIdx] = {
-                                            ...last,
-                                            toolCalls: [...(last.toolCalls || []), {
-                                                id: event.id,
-                                                name: event.name,
-                                                arguments: event.arguments
-                                            }]
-                                        };
-                                    }
-                                    return updated;
-                                });
-                                break;
-
-                            case 'tool_result':
-                                setMessages(prev => {
-                                    const updated = [...prev];
-                                    const lastIdx = updated.findLastIndex(m => m.role === 'assistant');
-                                    if (lastIdx !== -1) {
-                                        const last = updated[lastIdx];
-                                        updated[lastIdx] = {
-                                            ...last,
-                                            toolResults: [...(last.toolResults || []), {
-                                                name: event.name,
-                                                result: event.result
-                                            }]
-                                        };
-                                    }
-                                    return updated;
-                                });
-                                break;
-
-                            case 'spread_laid':
-                                const spreadWithCards = (event as any).spreadWithCards as SpreadWithCards | undefined;
-
-                                if (spreadWithCards) {
-                                    addSpread(spreadWithCards);
-
-                                    setMessages(prev => [...prev, {
-                                        id: generateId(),
-                                        role: 'system',
-                                        content: `Spread laid: ${spreadWithCards.spread.name}`
-                                    }]);
-                                }
-                                break;
-                        }
+            // Apply one stream event to the chat state
+            const handleEvent = (event: ChatStreamEvent) => {
+                switch (event.type) {
+                    case 'text':
+                        setMessages(prev => {
+                            const updated = [...prev];
+                            const lastIdx = updated.findLastIndex(m => m.role === 'assistant');
+                            if (lastIdx !== -1) {
+                                updated[lastIdx] = {
+                                    ...updated[lastIdx],
+                                    content: updated[lastIdx].content + event.content
+                                };
+                            }
+                            return updated;
+                        });
+                        break;
+
+                    case 'tool_call':
+                        // Add visible indicator for tool calls
+                        const toolDisplayName = event.name === 'request_interpretation'
+                            ? '🔮 Consulting deeper wisdom...'
+                            : event.name === 'draw_cards'
+                                ? '🎴 Drawing cards...'
+                                : event.name === 'draw_clarifier'
+                                    ? '🃏 Drawing a clarifier...'
+                                    : event.name === 'list_spreads'
+                                        ? '📋 Reviewing spreads...'
+                                        : `🔧 ${event.name}`;
+
+                        setMessages(prev => [...prev, {
+                            id: generateId(),
+                            role: 'system',
+                            content: toolDisplayName
+                        }]);
+
+                        setMessages(prev => {
+                            const updated = [...prev];
+                            const lastIdx = updated.findLastIndex(m => m.role === 'assistant');
+                            if (lastIdx !== -1) {
+                                const last = updated[lastIdx];
+                                updated[lastIdx] = {
+                                    ...last,
+                                    toolCalls: [...(last.toolCalls || []), {
+                                        id: event.id,
+                                        name: event.name,
+                                        arguments: event.arguments
+                                    }]
+                                };
+                            }
+                            return updated;
+                        });
+                        break;
+
+                    case 'tool_result':
+                        setMessages(prev => {
+                            const updated = [...prev];
+                            const lastIdx = updated.findLastIndex(m => m.role === 'assistant');
+                            if (lastIdx !== -1) {
+                                const last = updated[lastIdx];
+                                updated[lastIdx] = {
+                                    ...last,
+                                    toolResults: [...(last.toolResults || []), {
+                                        name: event.name,
+                                        result: event.result
+                                    }]
+                                };
+                            }
+                            return updated;
+                        });
+                        break;
+
+                    case 'draw_committed':
+                        setMessages(prev => [...prev, {
+                            id: generateId(),
+                            role: 'system',
+                            content: `🔒 Draw committed: ${event.commitment.slice(0, 16)}…`,
+                            commitment: { draw_id: event.draw_id, commitment: event.commitment },
+                        }]);
+                        break;
+
+                    case 'slot_machine_required':
+                        setSlotMachine({
+                            draw_id: event.draw_id,
+                            n: event.n,
+                            remaining: event.remaining,
+                            expires_at: event.expires_at,
+                            taps: [],
+                            isSubmitting: false,
+                        });
+                        break;
+
+                    case 'clarifier_drawn':
+                        setSlotMachine(null);
+                        updateSpread(event.spreadWithCards);
+                        setMessages(prev => [...prev, {
+                            id: generateId(),
+                            role: 'system',
+                            content: `${event.clarifier.kind === 'shadow' ? 'Shadow card' : 'Clarifier'} drawn: ${event.clarifier.card.name}${event.clarifier.reversed ? ' (Reversed)' : ''}`
+                        }]);
+                        break;
+
+                    case 'reading_interpreted':
+                        updateReadingAi(event.reading_id, ai => ({ ...ai, one_shot: event.interpretation }));
+                        break;
+
+                    case 'positions_interpreted': {
+                        const { interpretation } = event;
+                        updateReadingAi(event.reading_id, ai => ({
+                            ...ai,
+                            positions: [...(ai.positions ?? []), interpretation],
+                        }));
+                        const numbers = interpretation.position_indexes.map(i => i + 1);
+                        setMessages(prev => [...prev, {
+                            id: generateId(),
+                            role: 'system',
+                            content: `Focused on position${numbers.length > 1 ? 's' : ''} ${numbers.join(', ')} (tap the card to read it again)`
+                        }]);
+                        break;
+                    }
 
-                    } catch (e) {
-                        console.error('Error parsing event:', e);
+                    case 'spread_laid': {
+                        setSlotMachine(null);
+                        const { spreadWithCards } = event;
+                        addSpread(spreadWithCards);
+
+                        setMessages(prev => [...prev, {
+                            id: generateId(),
+                            role: 'system',
+                            content: `Spread laid: ${spreadWithCards.spread.name}`
+                        }]);
+                        if (preferences.drawMode === 'shuffle') {
+                            refreshDeck();
+                        }
+                        break;
                     }
                 }
+            };
+
+            // Events carry `<turn id>:<seq>` ids: a dropped stream resumes after the last one received
+            const turnId = response.headers.get('X-Chat-Turn-Id');
+            turnIdRef.current = turnId;
+            let lastEventId = turnId ? `${turnId}:0` : null;
+            let turnOver = false;
+            let failures = 0;
+
+            const onMessage = ({ id, event }: SSEMessage) => {
+                if (id) lastEventId = id;
+                if (event.type === 'done' || event.type === 'error') turnOver = true;
+                failures = 0;
+                try {
+                    handleEvent(event);
+                } catch (e) {
+                    console.error('Error handling event:', e);
+                }
+            };
+
+            let stream: Response | null = response;
+            while (!turnOver) {
+                try {
+                    stream ??= await fetch('/api/chat', {
+                        headers: { 'Last-Event-ID': lastEventId! },
+                        signal: abortController.signal,
+                    });
+                    if (stream.status === 404) break; // Turn expired: nothing left to resume
+                    if (!stream.ok) throw new Error(`HTTP ${stream.status}`);
+                    await readEventStream(stream, onMessage);
+                } catch (error) {
+                    if (abortController.signal.aborted) throw error;
+                    console.warn('Chat stream dropped:', error);
+                }
+
+                stream = null;
+                if (turnOver || !lastEventId || ++failures > MAX_RESUME_ATTEMPTS) break;
+                await delay(RESUME_DELAY_MS * failures, abortController.signal);
             }
 
+            if (!turnOver) throw new Error('Lost the connection to the reading');
         } catch (error) {
-            console.error('Chat error:', error);
+            if (abortController.signal.aborted) {
+                // Keep whatever text arrived, marked as interrupted
+                setMessages(prev => assistantId
+                    ? prev.map(m => m.id === assistantId ? { ...m, interrupted: true } : m)
+                    : [...prev, { id: generateId(), role: 'system', content: 'Reading stopped.' }]);
+            } else {
+                console.error('Chat error:', error);
+                setMessages(prev => [...prev, {
+                    id: generateId(),
+                    role: 'system',
+                    content: 'Sorry, I encountered an error connecting to the spirits.'
+                }]);
+            }
+        } finally {
+            if (abortControllerRef.current === abortController) {
+                abortControllerRef.current = null;
+                turnIdRef.current = null;
+            }
+            setIsLoading(false);
+            setSlotMachine(null);
+        }
+    }, [messages, isLoading, activeSpread, spreadLedger, addSpread, updateSpread, updateReadingAi, summarizeIfNeeded, contractMockSpread, sessionId, preferences, refreshDeck]);
+
+    // Stop the reading in flight; closing the stream alone would only detach from the turn
+    const stopGeneration = useCallback(() => {
+        abortControllerRef.current?.abort();
+        cancelChatTurn(turnIdRef.current);
+    }, []);
+
+    // Report a slot-machine tap; the server resumes the turn once all cards are drawn
+    const submitSlotMachineTap = useCallback(async (elapsedMs: number) => {
+        if (!slotMachine || slotMachine.isSubmitting) return;
+
+        setSlotMachine(prev => prev && { ...prev, isSubmitting: true });
+
+        try {
+            const response = await fetch('/api/rng/slot-machine', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ draw_id: slotMachine.draw_id, elapsed_ms: elapsedMs }),
+            });
+
+            if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+            const result = await response.json() as SlotMachineTapResponse;
+            setSlotMachine(prev => prev && {
+                ...prev,
+                remaining: result.remaining,
+                taps: [...prev.taps, result.tap],
+                isSubmitting: false,
+            });
+        } catch (error) {
+            console.error('Slot-machine tap error:', error);
+            setSlotMachine(prev => prev && { ...prev, isSubmitting: false });
+        }
+    }, [slotMachine]);
+
+    // Lay a spread entered from a physical deck; returns an error message on failure
+    const addManualReading = useCallback(async (request: ManualReadingRequest): Promise<string | null> => {
+        try {
+            const response = await fetch('/api/readings/manual', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(request),
+            });
+
+            const result = await response.json();
+            if (!response.ok) {
+                return result.error || `HTTP ${response.status}`;
+            }
+
+            const { spreadWithCards } = result as ManualReadingResponse;
+            addSpread(spreadWithCards);
             setMessages(prev => [...prev, {
                 id: generateId(),
                 role: 'system',
-                content: 'Sorry, I encountered an error connecting to the spirits.'
+                content: `Spread laid: ${spreadWithCards.spread.name} (entered manually)`
             }]);
-        } finally {
-            setIsLoading(false);
+            return null;
+        } catch (error) {
+            console.error('Manual reading error:', error);
+            return 'Could not lay the spread. Please try again.';
         }
-    }, [messages, isLoading, activeSpread, spreadLedger, addSpread, summarizeIfNeeded, contractMockSpread]);
+    }, [addSpread]);
 
     const clearMessages = useCallback(() => {
+        abortControllerRef.current?.abort();
+        cancelChatTurn(turnIdRef.current);
         setMessages([]);
         setConversationSummary(null);
         setSpreadLedger([]);
+        setSessionId(generateId()); // New session, fresh deck
+        setDeck(null);
+        setDeckError(null);
     }, []);
 
     return {
         messages,
         isLoading,
         sendMessage,
+        stopGeneration,
         clearMessages,
+        slotMachine,
+        submitSlotMachineTap,
+        addManualReading,
+        deck,
+        deckError,
+        isDeckBusy,
+        refreshDeck,
+        shuffleDeck,
+        cutDeck,
         conversationSummary, // Expose for debugging if needed
     };
 }
@@ -0,0 +1,13 @@
+/**
+ * Instrumentation — Runs once when the server starts
+ *
+ * Startup checks for configuration that would otherwise fail quietly.
+ */
+
+import { warnIfRandomOrgUnverifiable } from '@/config/rng';
+
+export function register() {
+    if (process.env.NEXT_RUNTIME === 'nodejs') {
+        warnIfRandomOrgUnverifiable();
+    }
+}
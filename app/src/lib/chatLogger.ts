@@ -7,6 +7,7 @@
 
 import fs from 'fs';
 import path from 'path';
+import { UsageSummary } from '@/types';
 
 const LOG_DIR = path.join(process.cwd(), 'logs');
 const CHAT_LOG_FILE = path.join(LOG_DIR, 'chat.log');
@@ -118,6 +119,28 @@ export function logError(source: string, error: unknown) {
     writeLog(CHAT_LOG_FILE, `ERROR [${source}]: ${message}`);
 }
 
+/**
+ * Log a turn stopped because the client went away or pressed stop
+ */
+export function logInterrupted(source: string) {
+    writeLog(CHAT_LOG_FILE, `INTERRUPTED [${source}]: client cancelled the turn`);
+}
+
+/**
+ * Log which prompt version a model was given (A/B variants included)
+ */
+export function logPrompt(model: 'mini' | 'thinking', prompt: { id: string; version: string }) {
+    writeLog(CHAT_LOG_FILE, `PROMPT [${model}] ${prompt.id}@${prompt.version}`);
+}
+
+/**
+ * Log a turn's token usage and estimated cost
+ */
+export function logUsage(usage: UsageSummary) {
+    const credits = usage.cost_hint.credits_estimated;
+    writeLog(CHAT_LOG_FILE, `USAGE | Input: ${usage.input_tokens} | Output: ${usage.output_tokens} | Credits: ${credits?.toFixed(2) ?? 'unpriced'}`);
+}
+
 /**
  * Log session end
  */
@@ -132,7 +155,7 @@ const CONTEXT_LOG_FILE = path.join(LOG_DIR, 'context.log');
 /**
  * Log the full context sent to a model (for debugging)
  */
-export function logModelContext(model: 'mini' | 'thinking' | 'claude-haiku', context: {
+export function logModelContext(model: 'mini' | 'thinking', context: {
     systemPrompt?: string;
     messages?: unknown[];
     conversationSummary?: string;
@@ -0,0 +1,147 @@
+/**
+ * Chat Turns — Buffered turn output so a dropped SSE stream can resume
+ *
+ * Every event of a turn gets a sequence number and is kept in memory, so a
+ * client that loses its connection reconnects with Last-Event-ID
+ * (`<turn id>:<seq>`) and receives only what it missed, without redrawing
+ * cards or re-running the models. A turn keeps running while no client is
+ * connected; it is aborted if nobody reconnects within DETACHED_ABORT_MS,
+ * or at once through cancelChatTurn. Finished turns are kept for TURN_TTL_MS.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+
+const TURN_TTL_MS = 5 * 60 * 1000;
+const DETACHED_ABORT_MS = 60 * 1000;
+
+export interface ChatTurnEvent {
+    seq: number; // 1-based, in send order
+    data: string; // JSON of the event
+}
+
+type Subscriber = {
+    onEvent: (event: ChatTurnEvent) => void;
+    onEnd: () => void;
+};
+
+interface ChatTurn {
+    id: string;
+    events: ChatTurnEvent[];
+    finished: boolean;
+    terminated: boolean; // A done or error event was sent
+    subscribers: Set<Subscriber>;
+    abortController: AbortController;
+    detachedTimer?: ReturnType<typeof setTimeout>;
+}
+
+const turns = new Map<string, ChatTurn>();
+
+export interface ChatTurnWriter {
+    id: string;
+    signal: AbortSignal; // Aborted by cancelChatTurn or when left detached
+    send: (event: Record<string, unknown>) => void;
+    finish: () => void;
+}
+
+/**
+ * Start buffering a new turn
+ */
+export function createChatTurn(): ChatTurnWriter {
+    const turn: ChatTurn = {
+        id: uuidv4(),
+        events: [],
+        finished: false,
+        terminated: false,
+        subscribers: new Set(),
+        abortController: new AbortController(),
+    };
+    turns.set(turn.id, turn);
+
+    const send = (event: Record<string, unknown>) => {
+        if (turn.finished) return;
+
+        const turnEvent: ChatTurnEvent = { seq: turn.events.length + 1, data: JSON.stringify(event) };
+        turn.events.push(turnEvent);
+        if (event.type === 'done' || event.type === 'error') turn.terminated = true;
+
+        for (const subscriber of turn.subscribers) subscriber.onEvent(turnEvent);
+    };
+
+    const finish = () => {
+        if (turn.finished) return;
+
+        // Every buffer ends in done or error, so a resuming client knows the turn is over
+        if (!turn.terminated) {
+            send({ type: 'error', message: 'The reading was stopped' });
+        }
+        turn.finished = true;
+        clearTimeout(turn.detachedTimer);
+
+        for (const subscriber of turn.subscribers) subscriber.onEnd();
+        turn.subscribers.clear();
+        setTimeout(() => turns.delete(turn.id), TURN_TTL_MS);
+    };
+
+    return { id: turn.id, signal: turn.abortController.signal, send, finish };
+}
+
+/**
+ * Replay a turn's events after `afterSeq`, then follow it live until it finishes
+ * Returns an unsubscribe function, or null if the turn is unknown or expired.
+ */
+export function subscribeToChatTurn(
+    turnId: string,
+    afterSeq: number,
+    onEvent: (event: ChatTurnEvent) => void,
+    onEnd: () => void
+): (() => void) | null {
+    const turn = turns.get(turnId);
+    if (!turn) return null;
+
+    for (const event of turn.events) {
+        if (event.seq > afterSeq) onEvent(event);
+    }
+    if (turn.finished) {
+        onEnd();
+        return () => {};
+    }
+
+    const subscriber: Subscriber = { onEvent, onEnd };
+    turn.subscribers.add(subscriber);
+    clearTimeout(turn.detachedTimer);
+
+    return () => {
+        turn.subscribers.delete(subscriber);
+        if (turn.subscribers.size === 0 && !turn.finished) {
+            clearTimeout(turn.detachedTimer);
+            turn.detachedTimer = setTimeout(() => turn.abortController.abort(), DETACHED_ABORT_MS);
+        }
+    };
+}
+
+/**
+ * Abort a running turn (the user pressed stop)
+ * Returns false if the turn is unknown or already finished.
+ */
+export function cancelChatTurn(turnId: string): boolean {
+    const turn = turns.get(turnId);
+    if (!turn || turn.finished) return false;
+
+    turn.abortController.abort();
+    return true;
+}
+
+/**
+ * Format a turn event as an SSE message; its id is what Last-Event-ID sends back
+ */
+export function formatChatTurnEvent(turnId: string, event: ChatTurnEvent): string {
+    return `id: ${turnId}:${event.seq}\ndata: ${event.data}\n\n`;
+}
+
+/**
+ * Parse a Last-Event-ID value (`<turn id>:<seq>`)
+ */
+export function parseChatTurnEventId(value: string | null): { turnId: string; seq: number } | null {
+    const match = value?.trim().match(/^([0-9a-f-]{36}):(\d+)$/i);
+    return match ? { turnId: match[1], seq: Number(match[2]) } : null;
+}
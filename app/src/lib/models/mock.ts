@@ -0,0 +1,107 @@
+/**
+ * Mock Chat Model — Scripted, deterministic provider for development and test
+ *
+ * Replays a fixture from src/lib/models/fixtures: turn k is returned on the
+ * k-th model call after the latest user message (counted from the assistant
+ * messages since then), so the chat tool loop walks through the turns in order.
+ * Past the last turn the last one repeats. No network, no API keys.
+ *
+ * Select it with MODEL_<ROLE>_PROVIDER=mock and MODEL_<ROLE>_NAME=<fixture>,
+ * or per request with ChatRequest.mockModels (not in production).
+ */
+
+import { ChatModelProvider, ChatModelUsage } from './providers';
+import directReply from './fixtures/direct-reply.json';
+import drawAndFocus from './fixtures/draw-and-focus.json';
+import drawAndInterpret from './fixtures/draw-and-interpret.json';
+import duplicateInterpretation from './fixtures/duplicate-interpretation.json';
+import interpretation from './fixtures/interpretation.json';
+import toolLoop from './fixtures/tool-loop.json';
+
+export interface MockTurn {
+    text?: string[]; // Streamed as one delta each
+    tool_calls?: Array<{ name: string; arguments: Record<string, unknown> }>;
+}
+
+export interface MockFixture {
+    description: string;
+    turns: MockTurn[];
+}
+
+const FIXTURES: Record<string, MockFixture> = {
+    'direct-reply': directReply,
+    'draw-and-focus': drawAndFocus,
+    'draw-and-interpret': drawAndInterpret,
+    'duplicate-interpretation': duplicateInterpretation,
+    'interpretation': interpretation,
+    'tool-loop': toolLoop,
+};
+
+/**
+ * Mock models are allowed in development and test only
+ */
+export function isMockModelAllowed(): boolean {
+    return process.env.NODE_ENV !== 'production';
+}
+
+/**
+ * Get a fixture by name
+ */
+export function getMockFixture(name: string): MockFixture | undefined {
+    return FIXTURES[name];
+}
+
+/**
+ * Names of all fixtures
+ */
+export function getMockFixtureNames(): string[] {
+    return Object.keys(FIXTURES);
+}
+
+// Rough token count so usage events have plausible numbers
+function estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+}
+
+export function createMockProvider(): ChatModelProvider {
+    return {
+        name: 'mock',
+
+        async *stream(request) {
+            const fixture = FIXTURES[request.model];
+            if (!fixture || fixture.turns.length === 0) {
+                throw new Error(`Unknown mock fixture: ${request.model}`);
+            }
+
+            let lastUserIndex = -1;
+            request.messages.forEach((message, i) => {
+                if (message.role === 'user') lastUserIndex = i;
+            });
+            const turnIndex = request.messages
+                .slice(lastUserIndex + 1)
+                .filter(message => message.role === 'assistant').length;
+            const turn = fixture.turns[Math.min(turnIndex, fixture.turns.length - 1)];
+
+            let output = '';
+            for (const text of turn.text ?? []) {
+                request.signal?.throwIfAborted();
+                output += text;
+                yield { type: 'text', text };
+            }
+
+            for (const [i, toolCall] of (turn.tool_calls ?? []).entries()) {
+                output += JSON.stringify(toolCall);
+                yield {
+                    type: 'tool_call',
+                    toolCall: { id: `mock_${turnIndex}_${i}`, name: toolCall.name, arguments: { ...toolCall.arguments } },
+                };
+            }
+
+            const usage: ChatModelUsage = {
+                inputTokens: estimateTokens(request.system + request.messages.map(m => m.content).join('')),
+                outputTokens: estimateTokens(output),
+            };
+            yield { type: 'usage', usage };
+        },
+    };
+}
@@ -0,0 +1,263 @@
+/**
+ * Chat Model Providers — One streaming interface over the model SDKs
+ *
+ * Messages, tools and tool calls use a provider-neutral shape; each adapter
+ * converts them to its SDK and streams back text, tool calls and usage.
+ * Which provider and model a role uses comes from src/config/models.ts.
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import OpenAI from 'openai';
+import { ModelProviderName } from '@/config/models';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface ChatToolDefinition {
+    name: string;
+    description: string;
+    parameters: Record<string, unknown>; // JSON schema of the arguments object
+}
+
+export interface ChatToolCall {
+    id: string;
+    name: string;
+    arguments: Record<string, unknown>;
+}
+
+export type ChatModelMessage =
+    | { role: 'user'; content: string }
+    | { role: 'assistant'; content: string; toolCalls?: ChatToolCall[] }
+    | { role: 'tool'; toolCallId: string; content: string };
+
+export interface ChatModelUsage {
+    inputTokens: number;
+    outputTokens: number;
+}
+
+export interface ChatModelRequest {
+    model: string;
+    system: string;
+    messages: ChatModelMessage[];
+    tools?: ChatToolDefinition[];
+    maxTokens: number;
+    temperature?: number;
+    signal?: AbortSignal;
+}
+
+// Text streams as it arrives; tool calls and usage follow once the response is complete
+export type ChatModelEvent =
+    | { type: 'text'; text: string }
+    | { type: 'tool_call'; toolCall: ChatToolCall }
+    | { type: 'usage'; usage: ChatModelUsage };
+
+export interface ChatModelProvider {
+    name: ModelProviderName;
+    stream(request: ChatModelRequest): AsyncGenerator<ChatModelEvent, void, unknown>;
+}
+
+/**
+ * Run a request to completion and collect its text
+ */
+export async function completeChat(
+    provider: ChatModelProvider,
+    request: ChatModelRequest
+): Promise<{ text: string; usage?: ChatModelUsage }> {
+    let text = '';
+    let usage: ChatModelUsage | undefined;
+
+    for await (const event of provider.stream(request)) {
+        if (event.type === 'text') text += event.text;
+        if (event.type === 'usage') usage = event.usage;
+    }
+    return { text, usage };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Anthropic
+// ─────────────────────────────────────────────────────────────────────────────
+
+function toAnthropicMessages(messages: ChatModelMessage[]): Anthropic.MessageParam[] {
+    const result: Anthropic.MessageParam[] = [];
+
+    for (const message of messages) {
+        if (message.role === 'tool') {
+            // Consecutive tool results go back together in one user turn
+            const block: Anthropic.ToolResultBlockParam = {
+                type: 'tool_result',
+                tool_use_id: message.toolCallId,
+                content: message.content,
+            };
+            const previous = result[result.length - 1];
+            if (previous?.role === 'user' && Array.isArray(previous.content)
+                && previous.content.every(b => b.type === 'tool_result')) {
+                previous.content.push(block);
+            } else {
+                result.push({ role: 'user', content: [block] });
+            }
+            continue;
+        }
+
+        if (message.role === 'assistant' && message.toolCalls?.length) {
+            const content: Anthropic.ContentBlockParam[] = [];
+            if (message.content) {
+                content.push({ type: 'text', text: message.content });
+            }
+            for (const toolCall of message.toolCalls) {
+                content.push({ type: 'tool_use', id: toolCall.id, name: toolCall.name, input: toolCall.arguments });
+            }
+            result.push({ role: 'assistant', content });
+            continue;
+        }
+
+        result.push({ role: message.role, content: message.content });
+    }
+
+    return result;
+}
+
+export function createAnthropicProvider(apiKey: string | undefined): ChatModelProvider {
+    const client = new Anthropic({ apiKey });
+
+    return {
+        name: 'anthropic',
+
+        async *stream(request) {
+            const stream = client.messages.stream({
+                model: request.model,
+                max_tokens: request.maxTokens,
+                temperature: request.temperature,
+                system: request.system,
+                messages: toAnthropicMessages(request.messages),
+                tools: request.tools?.map(tool => ({
+                    name: tool.name,
+                    description: tool.description,
+                    input_schema: tool.parameters as Anthropic.Tool.InputSchema,
+                })),
+            }, { signal: request.signal });
+
+            for await (const event of stream) {
+                if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+                    yield { type: 'text', text: event.delta.text };
+                }
+            }
+
+            const finalMessage = await stream.finalMessage();
+            for (const block of finalMessage.content) {
+                if (block.type === 'tool_use') {
+                    yield {
+                        type: 'tool_call',
+                        toolCall: { id: block.id, name: block.name, arguments: block.input as Record<string, unknown> },
+                    };
+                }
+            }
+            yield {
+                type: 'usage',
+                usage: { inputTokens: finalMessage.usage.input_tokens, outputTokens: finalMessage.usage.output_tokens },
+            };
+        },
+    };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// OpenAI and OpenAI-compatible (local)
+// ─────────────────────────────────────────────────────────────────────────────
+
+function toOpenAIMessages(system: string, messages: ChatModelMessage[]): OpenAI.Chat.ChatCompletionMessageParam[] {
+    return [
+        { role: 'system', content: system },
+        ...messages.map((message): OpenAI.Chat.ChatCompletionMessageParam => {
+            if (message.role === 'tool') {
+                return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+            }
+            if (message.role === 'assistant' && message.toolCalls?.length) {
+                return {
+                    role: 'assistant',
+                    content: message.content || null,
+                    tool_calls: message.toolCalls.map(toolCall => ({
+                        id: toolCall.id,
+                        type: 'function',
+                        function: { name: toolCall.name, arguments: JSON.stringify(toolCall.arguments) },
+                    })),
+                };
+            }
+            return { role: message.role, content: message.content };
+        }),
+    ];
+}
+
+function parseToolArguments(name: string, raw: string): Record<string, unknown> {
+    if (!raw) return {};
+    try {
+        const parsed = JSON.parse(raw);
+        return parsed && typeof parsed === 'object' ? parsed : {};
+    } catch {
+        console.warn(`Tool call ${name} has invalid JSON arguments: ${raw}`);
+        return {};
+    }
+}
+
+/**
+ * OpenAI chat completions, or any server speaking the same API (`local`)
+ */
+export function createOpenAIProvider(
+    name: 'openai' | 'local',
+    options: { apiKey?: string; baseUrl?: string }
+): ChatModelProvider {
+    const client = new OpenAI({ apiKey: options.apiKey, baseURL: options.baseUrl });
+
+    return {
+        name,
+
+        async *stream(request) {
+            const stream = await client.chat.completions.create({
+                model: request.model,
+                messages: toOpenAIMessages(request.system, request.messages),
+                tools: request.tools?.map(tool => ({
+                    type: 'function' as const,
+                    function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+                })),
+                // Local servers generally only know the older max_tokens
+                ...(name === 'local' ? { max_tokens: request.maxTokens } : { max_completion_tokens: request.maxTokens }),
+                temperature: request.temperature,
+                stream: true,
+                stream_options: { include_usage: true },
+            }, { signal: request.signal });
+
+            // Tool calls arrive as fragments keyed by index
+            const toolCalls: Array<{ id: string; name: string; arguments: string }> = [];
+            let usage: ChatModelUsage | undefined;
+
+            for await (const chunk of stream) {
+                const delta = chunk.choices[0]?.delta;
+                if (delta?.content) {
+                    yield { type: 'text', text: delta.content };
+                }
+                for (const fragment of delta?.tool_calls ?? []) {
+                    const toolCall = toolCalls[fragment.index] ??= { id: '', name: '', arguments: '' };
+                    if (fragment.id) toolCall.id = fragment.id;
+                    if (fragment.function?.name) toolCall.name += fragment.function.name;
+                    if (fragment.function?.arguments) toolCall.arguments += fragment.function.arguments;
+                }
+                if (chunk.usage) {
+                    usage = { inputTokens: chunk.usage.prompt_tokens, outputTokens: chunk.usage.completion_tokens };
+                }
+            }
+
+            for (const toolCall of toolCalls) {
+                yield {
+                    type: 'tool_call',
+                    toolCall: {
+                        id: toolCall.id,
+                        name: toolCall.name,
+                        arguments: parseToolArguments(toolCall.name, toolCall.arguments),
+                    },
+                };
+            }
+            if (usage) {
+                yield { type: 'usage', usage };
+            }
+        },
+    };
+}
@@ -0,0 +1,81 @@
+/**
+ * Chat Model Registry
+ *
+ * Resolves each role to a provider adapter and model from src/config/models.ts,
+ * so models can be swapped without touching the chat loop. Adapters are
+ * created on first use and reused. Outside production a request can swap
+ * a role for a scripted mock fixture (see mock.ts).
+ */
+
+import { getLocalModelEndpoint, getModelConfig, ModelConfig, ModelProviderName, ModelRole } from '@/config/models';
+import { getOpenAIKey } from '@/lib/envHelper';
+import { ChatModelProvider, createAnthropicProvider, createOpenAIProvider } from './providers';
+import { createMockProvider, getMockFixture, isMockModelAllowed } from './mock';
+
+export interface ChatModel {
+    provider: ChatModelProvider;
+    config: ModelConfig;
+}
+
+const providers = new Map<ModelProviderName, ChatModelProvider>();
+
+function createProvider(name: ModelProviderName): ChatModelProvider {
+    switch (name) {
+        case 'anthropic':
+            return createAnthropicProvider(process.env.ANTHROPIC_API_KEY);
+        case 'openai':
+            return createOpenAIProvider('openai', { apiKey: getOpenAIKey() });
+        case 'local': {
+            const endpoint = getLocalModelEndpoint();
+            return createOpenAIProvider('local', { apiKey: endpoint.apiKey, baseUrl: endpoint.baseUrl });
+        }
+        case 'mock':
+            return createMockProvider();
+    }
+}
+
+/**
+ * A role's config, swapped for a mock fixture when one is given
+ */
+function resolveModelConfig(role: ModelRole, mockFixture?: string): ModelConfig {
+    const config = getModelConfig(role);
+    return mockFixture ? { ...config, provider: 'mock', model: mockFixture } : config;
+}
+
+/**
+ * Why a role cannot be served (missing key or model name), or null if it can
+ */
+export function getChatModelError(role: ModelRole, mockFixture?: string): string | null {
+    const config = resolveModelConfig(role, mockFixture);
+
+    if (config.provider === 'mock') {
+        if (!isMockModelAllowed()) return 'Mock models are not available in production';
+        if (!getMockFixture(config.model)) return `Unknown mock fixture: ${config.model}`;
+    }
+    if (!config.model) {
+        return `MODEL_${role.toUpperCase()}_NAME is required for provider ${config.provider}`;
+    }
+    if (config.provider === 'anthropic' && !process.env.ANTHROPIC_API_KEY) {
+        return 'Anthropic API key not configured';
+    }
+    if (config.provider === 'openai' && !getOpenAIKey()) {
+        return 'OpenAI API key not configured';
+    }
+    return null;
+}
+
+/**
+ * Get the provider adapter and model config for a role
+ * Check getChatModelError first: a mock fixture is not validated here.
+ */
+export function getChatModel(role: ModelRole, mockFixture?: string): ChatModel {
+    const config = resolveModelConfig(role, mockFixture);
+
+    let provider = providers.get(config.provider);
+    if (!provider) {
+        provider = createProvider(config.provider);
+        providers.set(config.provider, provider);
+    }
+
+    return { provider, config };
+}
@@ -0,0 +1,91 @@
+/**
+ * RNG Audit Log — Every completed draw, persisted for fairness reports
+ *
+ * One JSON line per draw in logs/rng-audit.jsonl: a provenance summary for the
+ * report, the full provenance (attempts, fallback errors, receipt) and the cards
+ * that came out. Seeded draws are not recorded (they are not random).
+ * Read back by src/services/auditService.ts.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+import { CardDraw, DrawResponse, RngAuditEntry, RngProvenance } from '@/types';
+import { DrawOptions, getReversalPolicy } from '@/domain/rngMapping';
+
+const LOG_DIR = path.join(process.cwd(), 'logs');
+const AUDIT_LOG_FILE = path.join(LOG_DIR, 'rng-audit.jsonl');
+
+/**
+ * Main entropy source of a draw: the first successful attempt
+ * (for pool words, the provider that fetched the first batch)
+ */
+function getPrimaryProvider(provenance: RngProvenance): string {
+    const attempt = provenance.attempts.find(a => a.success);
+    if (!attempt) return provenance.method_used;
+
+    const segments = attempt.meta?.segments as Array<{ provider: string }> | undefined;
+    if (attempt.provider === 'entropy_pool' && segments?.length) {
+        return segments[0].provider;
+    }
+    return attempt.provider ?? attempt.method;
+}
+
+/**
+ * Append a completed draw to the audit log
+ * Never throws: a failed write is logged and the draw goes ahead.
+ */
+export function recordDrawAudit(
+    drawId: string,
+    response: DrawResponse,
+    options: Pick<DrawOptions, 'allowDuplicates' | 'allowReversals' | 'reversalPolicy' | 'cardPool'>
+) {
+    const entry: RngAuditEntry = {
+        draw_id: drawId,
+        at: new Date().toISOString(),
+        method_used: response.provenance.method_used,
+        provider: getPrimaryProvider(response.provenance),
+        allow_duplicates: options.allowDuplicates,
+        reversal_policy: getReversalPolicy(options),
+        card_pool: options.cardPool,
+        draws: response.draws.map(({ cardId, reversed }): CardDraw => ({ cardId, reversed })),
+        provenance: response.provenance,
+    };
+
+    try {
+        if (!fs.existsSync(LOG_DIR)) {
+            fs.mkdirSync(LOG_DIR, { recursive: true });
+        }
+        fs.appendFileSync(AUDIT_LOG_FILE, JSON.stringify(entry) + '\n', 'utf-8');
+    } catch (error) {
+        console.error('Failed to write RNG audit entry:', error);
+    }
+}
+
+/**
+ * Read audit entries with from <= at < to (either bound optional)
+ * Streams the file line by line; unreadable lines are skipped.
+ */
+export async function readAuditEntries(from?: Date, to?: Date): Promise<RngAuditEntry[]> {
+    if (!fs.existsSync(AUDIT_LOG_FILE)) return [];
+
+    const lines = readline.createInterface({
+        input: fs.createReadStream(AUDIT_LOG_FILE, 'utf-8'),
+        crlfDelay: Infinity,
+    });
+
+    const entries: RngAuditEntry[] = [];
+    for await (const line of lines) {
+        if (!line.trim()) continue;
+        try {
+            const entry = JSON.parse(line) as RngAuditEntry;
+            const at = new Date(entry.at);
+            if (from && at < from) continue;
+            if (to && at >= to) continue;
+            entries.push(entry);
+        } catch {
+            // Partial line from an interrupted write
+        }
+    }
+    return entries;
+}
@@ -0,0 +1,114 @@
+/**
+ * Circuit Breaker — Skip entropy providers that keep failing
+ *
+ * One breaker per provider, tracking the outcomes of its recent fetches:
+ * - closed: fetches go through; opens when the failure rate over the window
+ *   reaches the threshold (after at least minRequests outcomes)
+ * - open: fetches are skipped until the cooldown passes
+ * - half_open: a single trial fetch goes through; success closes the
+ *   circuit, failure opens it again
+ *
+ * Breakers live in server memory. Configured in src/config/rng.ts.
+ */
+
+import { RngCircuitState, RngCircuitStatus } from '@/types';
+import { getCircuitBreakerConfig } from '@/config/rng';
+
+interface Breaker {
+    state: RngCircuitState;
+    outcomes: boolean[]; // true = success, oldest first
+    openedAt?: number;
+    trialInFlight: boolean;
+    lastError?: string;
+}
+
+const breakers = new Map<string, Breaker>();
+
+function getBreaker(provider: string): Breaker {
+    let breaker = breakers.get(provider);
+    if (!breaker) {
+        breaker = { state: 'closed', outcomes: [], trialInFlight: false };
+        breakers.set(provider, breaker);
+    }
+    return breaker;
+}
+
+function failureRate(breaker: Breaker): number {
+    if (breaker.outcomes.length === 0) return 0;
+    return breaker.outcomes.filter(ok => !ok).length / breaker.outcomes.length;
+}
+
+/**
+ * Ask to fetch from a provider
+ * Returns false if its circuit is open (or a half-open trial is already running).
+ */
+export function tryAcquireCircuit(provider: string): boolean {
+    const breaker = getBreaker(provider);
+    const { cooldownMs } = getCircuitBreakerConfig();
+
+    if (breaker.state === 'open' && Date.now() - (breaker.openedAt ?? 0) >= cooldownMs) {
+        breaker.state = 'half_open';
+    }
+
+    if (breaker.state === 'open') return false;
+    if (breaker.state === 'half_open') {
+        if (breaker.trialInFlight) return false;
+        breaker.trialInFlight = true;
+    }
+    return true;
+}
+
+/**
+ * Record the outcome of a fetch that tryAcquireCircuit allowed
+ */
+export function recordCircuitOutcome(provider: string, success: boolean, error?: string) {
+    const breaker = getBreaker(provider);
+    const { windowSize, minRequests, failureRateThreshold } = getCircuitBreakerConfig();
+
+    if (!success) {
+        breaker.lastError = error;
+    }
+
+    if (breaker.state === 'half_open') {
+        breaker.trialInFlight = false;
+        if (success) {
+            breaker.state = 'closed';
+            breaker.outcomes = [true];
+            breaker.openedAt = undefined;
+        } else {
+            breaker.state = 'open';
+            breaker.openedAt = Date.now();
+        }
+        return;
+    }
+
+    breaker.outcomes.push(success);
+    if (breaker.outcomes.length > windowSize) {
+        breaker.outcomes.splice(0, breaker.outcomes.length - windowSize);
+    }
+
+    if (breaker.outcomes.length >= minRequests && failureRate(breaker) >= failureRateThreshold) {
+        breaker.state = 'open';
+        breaker.openedAt = Date.now();
+        console.warn(`RNG provider "${provider}" circuit opened: ${breaker.lastError ?? 'repeated failures'}`);
+    }
+}
+
+/**
+ * Current circuit status for a provider
+ */
+export function getCircuitStatus(provider: string): RngCircuitStatus {
+    const breaker = getBreaker(provider);
+    const { cooldownMs } = getCircuitBreakerConfig();
+
+    return {
+        state: breaker.state,
+        failure_rate: failureRate(breaker),
+        recent_requests: breaker.outcomes.length,
+        opened_at: breaker.openedAt ? new Date(breaker.openedAt).toISOString() : undefined,
+        retry_at: breaker.state === 'open' && breaker.openedAt
+            ? new Date(breaker.openedAt + cooldownMs).toISOString()
+            : undefined,
+        last_error: breaker.lastError,
+    };
+}
@@ -0,0 +1,189 @@
+/**
+ * Entropy Pool — Prefetched provider words so draws skip the network round trip
+ *
+ * A background refill fetches batches from the provider cascade (health-tested
+ * like live draws) until the pool holds `targetSize` words. Draws shift words off
+ * the front, so every word is used at most once: accepted or rejected, a word
+ * taken from the pool is gone. Falling below `lowWaterMark` starts a refill.
+ *
+ * The pool lives in server memory and starts empty; the first draw kicks off
+ * the first refill and fetches live meanwhile. Configured in src/config/rng.ts.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { RandomOrgSignedData, RngAttempt, RngMethod, RngPoolBatch, RngPoolStatus } from '@/types';
+import { getEntropyPoolConfig } from '@/config/rng';
+import { getProviderCascade } from './registry';
+import { fetchEntropyBatch } from './fetchBatch';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface PoolWord {
+    word: number;
+    batch: RngPoolBatch;
+    signed?: RandomOrgSignedData;
+}
+
+/** A run of consecutive words from one batch, recorded in attempt meta */
+export interface PoolSegment {
+    batch_id: string;
+    provider: string;
+    method: RngMethod;
+    fetched_at: string;
+    count: number;
+    data_offset: number; // Index of the first word in its batch
+    random_org?: RandomOrgSignedData; // Signed batch the words came from
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// State
+// ─────────────────────────────────────────────────────────────────────────────
+
+const pool: PoolWord[] = [];
+let refilling: Promise<void> | null = null;
+let lastRefillError: string | undefined;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Refill
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Start a background refill unless one is already running
+ */
+export function refillEntropyPool(): Promise<void> {
+    if (!refilling) {
+        refilling = runRefill().finally(() => {
+            refilling = null;
+        });
+    }
+    return refilling;
+}
+
+async function runRefill() {
+    const { targetSize, batchSize } = getEntropyPoolConfig();
+
+    while (pool.length < targetSize) {
+        const length = Math.min(batchSize, targetSize - pool.length);
+        let filled = false;
+
+        for (const entry of getProviderCascade()) {
+            const { attempt, numbers, signed } = await fetchEntropyBatch(entry, length);
+            if (!numbers) {
+                lastRefillError = `${entry.provider.name}: ${attempt.error?.message}`;
+                continue;
+            }
+
+            const batch: RngPoolBatch = {
+                id: uuidv4(),
+                provider: entry.provider.name,
+                method: entry.provider.method,
+                fetched_at: attempt.ended_at,
+                size: numbers.length,
+                remaining: numbers.length,
+            };
+            for (const word of numbers) {
+                pool.push({ word, batch, signed });
+            }
+            lastRefillError = undefined;
+            filled = numbers.length > 0;
+            break;
+        }
+
+        // Every provider failed: stop and let the next draw retry
+        if (!filled) {
+            console.warn('Entropy pool refill failed:', lastRefillError);
+            return;
+        }
+    }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Draw
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Take up to `count` raw words (a draw's committed words, or a deck shuffle)
+ * Returns null if the pool is disabled or empty.
+ */
+export function takeFromPool(count: number): { words: number[]; attempt: RngAttempt } | null {
+    const words: number[] = [];
+    const attempt = takeWords(
+        () => words.length < count,
+        word => words.push(word)
+    );
+    return attempt && { words, attempt };
+}
+
+/**
+ * Shift words off the pool while `wanted()` holds, recording their batches
+ */
+function takeWords(wanted: () => boolean, consume: (word: number) => void): RngAttempt | null {
+    const config = getEntropyPoolConfig();
+    if (!config.enabled) return null;
+
+    const startedAt = new Date().toISOString();
+    const segments: PoolSegment[] = [];
+    let wordsTaken = 0;
+
+    while (wanted() && pool.length > 0) {
+        const { word, batch, signed } = pool.shift() as PoolWord;
+        const dataOffset = batch.size - batch.remaining;
+        batch.remaining--;
+        wordsTaken++;
+
+        const last = segments[segments.length - 1];
+        if (last && last.batch_id === batch.id) {
+            last.count++;
+        } else {
+            segments.push({
+                batch_id: batch.id,
+                provider: batch.provider,
+                method: batch.method,
+                fetched_at: batch.fetched_at,
+                count: 1,
+                data_offset: dataOffset,
+                random_org: signed,
+            });
+        }
+
+        consume(word);
+    }
+
+    if (pool.length < config.lowWaterMark) {
+        refillEntropyPool().catch(error => console.error('Entropy pool refill error:', error));
+    }
+
+    if (segments.length === 0) return null;
+
+    return {
+        method: segments[0].method,
+        provider: 'entropy_pool',
+        started_at: startedAt,
+        ended_at: new Date().toISOString(),
+        success: true,
+        meta: { source: 'pool', words_taken: wordsTaken, segments },
+    };
+}
+
+/**
+ * Snapshot of the pool for diagnostics
+ */
+export function getEntropyPoolStatus(): RngPoolStatus {
+    const config = getEntropyPoolConfig();
+    const batches = new Map<string, RngPoolBatch>();
+    for (const { batch } of pool) {
+        batches.set(batch.id, batch);
+    }
+
+    return {
+        enabled: config.enabled,
+        size: pool.length,
+        target_size: config.targetSize,
+        low_water_mark: config.lowWaterMark,
+        refilling: refilling !== null,
+        batches: [...batches.values()].map(batch => ({ ...batch })),
+        last_refill_error: lastRefillError,
+    };
+}
@@ -0,0 +1,97 @@
+/**
+ * Fetch Batch — One provider fetch, recorded as an RngAttempt
+ *
+ * Checks provider health and its circuit breaker, fetches with the configured
+ * timeout and runs the entropy health tests. Shared by live draws and the entropy pool refill.
+ */
+
+import { RandomOrgSignedData, RngAttempt } from '@/types';
+import { runEntropyHealthTests, describeHealthFailure } from '@/domain/entropyHealth';
+import { CascadeEntry } from './registry';
+import { tryAcquireCircuit, recordCircuitOutcome } from './circuitBreaker';
+
+export interface BatchResult {
+    attempt: RngAttempt;
+    numbers: number[] | null; // null when the attempt failed
+    signed?: RandomOrgSignedData; // Verified random.org blob for the numbers
+}
+
+/**
+ * Fetch `length` uint16 words from one provider
+ * Never throws: failures are recorded on the attempt.
+ */
+export async function fetchEntropyBatch(entry: CascadeEntry, length: number): Promise<BatchResult> {
+    const { provider } = entry;
+    const attempt: RngAttempt = {
+        method: provider.method,
+        provider: provider.name,
+        started_at: new Date().toISOString(),
+        ended_at: '',
+        success: false,
+    };
+
+    const providerHealth = provider.health();
+    if (!providerHealth.available) {
+        attempt.ended_at = attempt.started_at;
+        attempt.error = {
+            code: 'provider_unavailable',
+            message: providerHealth.detail || `${provider.name} unavailable`,
+        };
+        return { attempt, numbers: null };
+    }
+
+    // Skip providers that keep failing instead of waiting out their timeout
+    if (!tryAcquireCircuit(provider.name)) {
+        attempt.ended_at = attempt.started_at;
+        attempt.error = {
+            code: 'circuit_open',
+            message: `${provider.name} circuit open after repeated failures`,
+        };
+        return { attempt, numbers: null };
+    }
+
+    const result = await fetchWithHealthTests(entry, attempt, length);
+    recordCircuitOutcome(provider.name, result.numbers !== null, attempt.error?.message);
+    return result;
+}
+
+/**
+ * Fetch and health-test one batch, recording the outcome on the attempt
+ */
+async function fetchWithHealthTests(
+    { provider, config }: CascadeEntry,
+    attempt: RngAttempt,
+    length: number
+): Promise<BatchResult> {
+    try {
+        const { numbers, signed } = await provider.fetchUint16(length, {
+            signal: AbortSignal.timeout(config.timeoutMs),
+        });
+        attempt.ended_at = new Date().toISOString();
+
+        // Reject the whole batch if it fails the entropy health tests
+        const healthReport = runEntropyHealthTests(numbers);
+        attempt.meta = {
+            requested: length,
+            received: numbers.length,
+            health_tests: healthReport.results,
+            ...(signed && { random_org: { serial_number: signed.random.serialNumber, ...signed } }),
+        };
+        if (!healthReport.passed) {
+            attempt.error = {
+                code: 'health_test_failed',
+                message: describeHealthFailure(healthReport),
+            };
+            return { attempt, numbers: null };
+        }
+
+        attempt.success = true;
+        return { attempt, numbers, signed };
+    } catch (error) {
+        attempt.ended_at = new Date().toISOString();
+        attempt.error = {
+            message: error instanceof Error ? error.message : 'Unknown error',
+        };
+        return { attempt, numbers: null };
+    }
+}
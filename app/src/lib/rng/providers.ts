@@ -0,0 +1,161 @@
+/**
+ * Entropy Providers — Sources of uint16 entropy for the draw cascade
+ *
+ * Each provider fetches a batch of numbers in [0..65535]. The draw engine
+ * (src/services/rngService.ts) runs them in the order and with the timeouts
+ * from src/config/rng.ts.
+ */
+
+import { RandomOrgSignedData, RngMethod } from '@/types';
+import { getProviderEndpoint, getRandomOrgPublicKey } from '@/config/rng';
+import { verifyRandomOrgSignature } from './randomOrgSignature';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface EntropyProviderHealth {
+    available: boolean;
+    detail?: string;
+}
+
+export interface EntropyFetchOptions {
+    signal: AbortSignal;
+}
+
+export interface EntropyBatch {
+    numbers: number[];
+    signed?: RandomOrgSignedData; // Verified provider signature over the numbers
+}
+
+export interface EntropyProvider {
+    name: string; // e.g. 'anu_qrng', recorded as RngAttempt.provider
+    method: RngMethod; // recorded as RngAttempt.method
+    fetchUint16(length: number, options: EntropyFetchOptions): Promise<EntropyBatch>;
+    health(): EntropyProviderHealth;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// ANU QRNG (primary)
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const anuQrngProvider: EntropyProvider = {
+    name: 'anu_qrng',
+    method: 'qrng',
+
+    async fetchUint16(length, { signal }) {
+        const apiKey = process.env.ANU_QRNG_API_KEY;
+        const endpoint = getProviderEndpoint('anu_qrng');
+        if (!apiKey && !endpoint.custom) {
+            throw new Error('ANU_QRNG_API_KEY not configured');
+        }
+
+        const url = `${endpoint.baseUrl}?type=uint16&length=${length}`;
+        const response = await fetch(url, {
+            headers: apiKey ? { 'x-api-key': apiKey } : undefined,
+            signal,
+        });
+
+        if (!response.ok) {
+            throw new Error(`QRNG API error: ${response.status}`);
+        }
+
+        const data = await response.json();
+        return { numbers: data.data as number[] };
+    },
+
+    health() {
+        if (process.env.ANU_QRNG_API_KEY) return { available: true };
+        return getProviderEndpoint('anu_qrng').custom
+            ? { available: true, detail: 'Custom endpoint without API key' }
+            : { available: false, detail: 'ANU_QRNG_API_KEY not configured' };
+    },
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// random.org (fallback, signed)
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const randomOrgProvider: EntropyProvider = {
+    name: 'random_org',
+    method: 'random_org',
+
+    async fetchUint16(length, { signal }) {
+        const apiKey = process.env.RANDOM_ORG_API_KEY;
+        const endpoint = getProviderEndpoint('random_org');
+        if (!apiKey && !endpoint.custom) {
+            throw new Error('RANDOM_ORG_API_KEY not configured');
+        }
+
+        // random.org JSON-RPC API, signed so draws can be proven later
+        const response = await fetch(`${endpoint.baseUrl}/json-rpc/4/invoke`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                jsonrpc: '2.0',
+                method: 'generateSignedIntegers',
+                params: {
+                    apiKey: apiKey ?? '',
+                    n: length,
+                    min: 0,
+                    max: 65535,
+                    replacement: true,
+                },
+                id: Date.now(),
+            }),
+            signal,
+        });
+
+        if (!response.ok) {
+            throw new Error(`random.org API error: ${response.status}`);
+        }
+
+        const data = await response.json();
+        if (data.error) {
+            throw new Error(data.error.message);
+        }
+
+        const signed: RandomOrgSignedData = {
+            random: data.result.random,
+            signature: data.result.signature,
+        };
+        if (!verifyRandomOrgSignature(signed)) {
+            throw new Error('random.org signature does not verify');
+        }
+
+        return { numbers: signed.random.data, signed };
+    },
+
+    health() {
+        if (!process.env.RANDOM_ORG_API_KEY && !getProviderEndpoint('random_org').custom) {
+            return { available: false, detail: 'RANDOM_ORG_API_KEY not configured' };
+        }
+        return getRandomOrgPublicKey()
+            ? { available: true }
+            : { available: false, detail: 'RANDOM_ORG_PUBLIC_KEY not configured' };
+    },
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// crypto.randomInt (local fallback, disabled by default)
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const cryptoProvider: EntropyProvider = {
+    name: 'crypto',
+    method: 'fallback',
+
+    async fetchUint16(length) {
+        const { randomInt } = await import('crypto');
+        const numbers: number[] = [];
+
+        for (let i = 0; i < length; i++) {
+            numbers.push(randomInt(0, 65536));
+        }
+
+        return { numbers };
+    },
+
+    health() {
+        return { available: true };
+    },
+};
@@ -0,0 +1,88 @@
+/**
+ * random.org Signatures — Offline proof that words came from random.org
+ *
+ * generateSignedIntegers returns the `random` object and an RSA-SHA512 signature
+ * over its JSON. We verify it against RANDOM_ORG_PUBLIC_KEY when the batch
+ * arrives, keep the blob in attempt meta, and put proofs in the draw receipt
+ * mapping receipt words to the signed data so the check can be repeated later.
+ */
+
+import { createVerify } from 'crypto';
+import { DrawReceipt, RandomOrgProof, RandomOrgSignedData, RngAttempt } from '@/types';
+import { getRandomOrgPublicKey } from '@/config/rng';
+import { PoolSegment } from './entropyPool';
+
+/**
+ * Check random.org's signature over the `random` object
+ * False when the key is missing or the signature does not match.
+ */
+export function verifyRandomOrgSignature(signed: RandomOrgSignedData): boolean {
+    const publicKey = getRandomOrgPublicKey();
+    if (!publicKey) return false;
+
+    try {
+        return createVerify('RSA-SHA512')
+            .update(JSON.stringify(signed.random))
+            .verify(publicKey, signed.signature, 'base64');
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Proof for `count` receipt words starting at `wordsOffset`, taken from data[dataOffset...]
+ */
+export function toRandomOrgProof(
+    signed: RandomOrgSignedData,
+    wordsOffset: number,
+    dataOffset: number,
+    count: number
+): RandomOrgProof {
+    return {
+        ...signed,
+        serial_number: signed.random.serialNumber,
+        words_offset: wordsOffset,
+        data_offset: dataOffset,
+        count,
+    };
+}
+
+/**
+ * Proofs for the signed segments of an entropy pool attempt
+ * `wordsOffset` is where the attempt's first word sits in the receipt words.
+ */
+export function proofsFromPoolAttempt(attempt: RngAttempt, wordsOffset: number): RandomOrgProof[] {
+    const segments = (attempt.meta?.segments ?? []) as PoolSegment[];
+    const proofs: RandomOrgProof[] = [];
+
+    let offset = wordsOffset;
+    for (const segment of segments) {
+        if (segment.random_org) {
+            proofs.push(toRandomOrgProof(segment.random_org, offset, segment.data_offset, segment.count));
+        }
+        offset += segment.count;
+    }
+    return proofs;
+}
+
+/**
+ * Verify every random.org proof on a receipt
+ * Returns error messages; empty when all proofs hold.
+ */
+export function verifyRandomOrgProofs(receipt: DrawReceipt): string[] {
+    const errors: string[] = [];
+
+    for (const proof of receipt.random_org ?? []) {
+        if (!verifyRandomOrgSignature(proof)) {
+            errors.push(`random.org signature for serial ${proof.serial_number} does not verify`);
+            continue;
+        }
+
+        const signedWords = proof.random.data.slice(proof.data_offset, proof.data_offset + proof.count);
+        const receiptWords = receipt.words.slice(proof.words_offset, proof.words_offset + proof.count);
+        if (signedWords.length !== proof.count || signedWords.some((word, i) => word !== receiptWords[i])) {
+            errors.push(`Receipt words do not match random.org serial ${proof.serial_number}`);
+        }
+    }
+    return errors;
+}
@@ -0,0 +1,203 @@
+/**
+ * Draw Receipts — Commit-reveal proof that a draw came from its entropy
+ *
+ * For every completed draw:
+ * 1. commitment = sha256(canonical { draw_id, params, words, salt }) is published
+ *    once the words are fixed, before any of them is mapped to a card
+ * 2. the receipt reveals the words and salt, so anyone can recompute the commitment
+ * 3. an HMAC signature (RNG_RECEIPT_SECRET) proves the server issued the receipt
+ *
+ * Words a draw needs beyond the committed ones (live top-up, slot-machine taps)
+ * are appended after them; `committed_words` says where the commitment ends.
+ *
+ * Verification replays the words through the same mapping used by the draw.
+ * Words from random.org also carry its signed batches (see randomOrgSignature.ts).
+ */
+
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { CardDraw, DrawReceipt, DrawReceiptParams, RandomOrgProof, VerifyReceiptResponse } from '@/types';
+import { DrawOptions, getReversalPolicy, replayDraw } from '@/domain/rngMapping';
+import { verifyRandomOrgProofs } from './randomOrgSignature';
+
+/** Words fixed for a draw before mapping; the receipt reveals them later */
+export interface DrawCommitment {
+    draw_id: string;
+    params: DrawReceiptParams;
+    words: number[];
+    salt: string;
+    commitment: string;
+}
+
+let ephemeralSecret: string | null = null;
+
+/**
+ * Get the HMAC secret
+ * Without RNG_RECEIPT_SECRET, a per-process secret is used and receipts
+ * stop verifying after a restart.
+ */
+function getReceiptSecret(): string {
+    if (process.env.RNG_RECEIPT_SECRET) {
+        return process.env.RNG_RECEIPT_SECRET;
+    }
+    if (!ephemeralSecret) {
+        console.warn('RNG_RECEIPT_SECRET not configured; using a per-process receipt secret');
+        ephemeralSecret = randomBytes(32).toString('hex');
+    }
+    return ephemeralSecret;
+}
+
+/**
+ * Serialize with sorted keys so hashes and signatures are reproducible
+ */
+function canonicalJson(value: unknown): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(canonicalJson).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+        const entries = Object.entries(value as Record<string, unknown>)
+            .filter(([, v]) => v !== undefined)
+            .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+        return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+    }
+    return JSON.stringify(value);
+}
+
+function computeCommitment(drawId: string, params: DrawReceiptParams, words: number[], salt: string): string {
+    return createHash('sha256')
+        .update(canonicalJson({ draw_id: drawId, params, words, salt }))
+        .digest('hex');
+}
+
+function computeSignature(receipt: Omit<DrawReceipt, 'signature'>): string {
+    return createHmac('sha256', getReceiptSecret())
+        .update(canonicalJson(receipt))
+        .digest('hex');
+}
+
+/**
+ * Receipt params for a draw (card_pool is omitted for the full deck)
+ */
+export function toReceiptParams(n: number, options: DrawOptions): DrawReceiptParams {
+    return {
+        n,
+        allow_duplicates: options.allowDuplicates,
+        allow_reversals: options.allowReversals,
+        reversal_policy: getReversalPolicy(options),
+        card_pool: options.cardPool,
+    };
+}
+
+/**
+ * Commit to a draw's words before they are mapped to cards
+ */
+export function commitDrawWords(drawId: string, params: DrawReceiptParams, words: number[]): DrawCommitment {
+    const salt = randomBytes(16).toString('hex');
+    return {
+        draw_id: drawId,
+        params,
+        words: [...words],
+        salt,
+        commitment: computeCommitment(drawId, params, words, salt),
+    };
+}
+
+/**
+ * Issue a signed receipt for a completed draw
+ * With `committed`, `words` must start with the committed words; without it,
+ * the commitment covers all of `words`.
+ */
+export function createDrawReceipt(
+    drawId: string,
+    params: DrawReceiptParams,
+    words: number[],
+    draws: CardDraw[],
+    randomOrgProofs: RandomOrgProof[] = [],
+    committed?: DrawCommitment
+): DrawReceipt {
+    const { salt, commitment } = committed ?? commitDrawWords(drawId, params, words);
+    const unsigned: Omit<DrawReceipt, 'signature'> = {
+        version: 1,
+        draw_id: drawId,
+        issued_at: new Date().toISOString(),
+        params,
+        words: [...words],
+        committed_words: committed && words.length > committed.words.length ? committed.words.length : undefined,
+        salt,
+        commitment,
+        draws: [...draws],
+        random_org: randomOrgProofs.length > 0 ? randomOrgProofs : undefined,
+    };
+
+    return { ...unsigned, signature: computeSignature(unsigned) };
+}
+
+/**
+ * Encode a receipt for RngProvenance.final_seed_or_receipt
+ */
+export function encodeDrawReceipt(receipt: DrawReceipt): string {
+    return JSON.stringify(receipt);
+}
+
+/**
+ * Decode a receipt from RngProvenance.final_seed_or_receipt
+ * Returns null if the value is missing or not a receipt.
+ */
+export function decodeDrawReceipt(encoded: string | undefined): DrawReceipt | null {
+    if (!encoded) return null;
+    try {
+        const receipt = JSON.parse(encoded) as DrawReceipt;
+        return receipt && receipt.version === 1 ? receipt : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Verify signature, commitment and that the words replay to the exact draws
+ */
+export function verifyDrawReceipt(receipt: DrawReceipt): VerifyReceiptResponse {
+    const errors: string[] = [];
+    const { signature, ...unsigned } = receipt;
+
+    const expectedSignature = Buffer.from(computeSignature(unsigned), 'hex');
+    const givenSignature = Buffer.from(signature || '', 'hex');
+    const signatureValid = expectedSignature.length === givenSignature.length
+        && timingSafeEqual(expectedSignature, givenSignature);
+    if (!signatureValid) {
+        errors.push('Signature does not match (receipt altered or issued by another server)');
+    }
+
+    const committedWords = receipt.words.slice(0, receipt.committed_words ?? receipt.words.length);
+    const commitmentValid = computeCommitment(receipt.draw_id, receipt.params, committedWords, receipt.salt) === receipt.commitment;
+    if (!commitmentValid) {
+        errors.push('Commitment does not match the revealed words and salt');
+    }
+
+    const replayedDraws = replayDraw(receipt.words, {
+        allowDuplicates: receipt.params.allow_duplicates,
+        allowReversals: receipt.params.allow_reversals,
+        reversalPolicy: receipt.params.reversal_policy,
+        cardPool: receipt.params.card_pool,
+    }, receipt.params.n);
+    const drawsValid = replayedDraws.length === receipt.params.n
+        && canonicalJson(replayedDraws) === canonicalJson(receipt.draws);
+    if (!drawsValid) {
+        errors.push('Replaying the words does not produce the recorded cards');
+    }
+
+    const randomOrgErrors = verifyRandomOrgProofs(receipt);
+    const randomOrgValid = randomOrgErrors.length === 0;
+    errors.push(...randomOrgErrors);
+
+    return {
+        valid: signatureValid && commitmentValid && drawsValid && randomOrgValid,
+        checks: {
+            signature: signatureValid,
+            commitment: commitmentValid,
+            draws: drawsValid,
+            random_org: receipt.random_org ? randomOrgValid : undefined,
+        },
+        replayed_draws: replayedDraws,
+        errors,
+    };
+}
@@ -0,0 +1,65 @@
+/**
+ * Entropy Provider Registry
+ *
+ * Providers register by name; the cascade is built from the config in
+ * src/config/rng.ts so sources can be added, reordered or disabled
+ * without touching the draw route.
+ */
+
+import { getRngProviderConfig, EntropyProviderConfig } from '@/config/rng';
+import { EntropyProvider, anuQrngProvider, randomOrgProvider, cryptoProvider } from './providers';
+
+export interface CascadeEntry {
+    provider: EntropyProvider;
+    config: EntropyProviderConfig;
+}
+
+const providers = new Map<string, EntropyProvider>();
+
+/**
+ * Register a provider (replaces any provider with the same name)
+ */
+export function registerEntropyProvider(provider: EntropyProvider) {
+    providers.set(provider.name, provider);
+}
+
+/**
+ * Get a registered provider by name
+ */
+export function getEntropyProvider(name: string): EntropyProvider | undefined {
+    return providers.get(name);
+}
+
+/**
+ * Get all registered providers
+ */
+export function getEntropyProviders(): EntropyProvider[] {
+    return [...providers.values()];
+}
+
+/**
+ * Get the enabled providers in cascade order
+ * Config entries naming an unregistered provider are skipped with a warning.
+ */
+export function getProviderCascade(): CascadeEntry[] {
+    const cascade: CascadeEntry[] = [];
+
+    for (const config of getRngProviderConfig()) {
+        if (!config.enabled) continue;
+
+        const provider = providers.get(config.name);
+        if (!provider) {
+            console.warn(`RNG provider "${config.name}" is configured but not registered`);
+            continue;
+        }
+
+        cascade.push({ provider, config });
+    }
+
+    return cascade;
+}
+
+// Built-in providers
+registerEntropyProvider(anuQrngProvider);
+registerEntropyProvider(randomOrgProvider);
+registerEntropyProvider(cryptoProvider);
@@ -0,0 +1,40 @@
+/**
+ * Seeded Draws — Deterministic entropy for replay and testing
+ *
+ * A seed expands into uint16 words with SHA-256 in counter mode:
+ * block i = sha256(`${seed}:${i}`), read as 16 big-endian uint16 words.
+ * The words run through the same mapping as provider entropy, so a seed
+ * always lays the same cards for the same n and options.
+ *
+ * Not random: only allowed outside production.
+ */
+
+import { createHash } from 'crypto';
+
+export const SEEDED_ALGORITHM = 'sha256-ctr';
+
+/**
+ * Seeded draws are allowed in development and test only
+ */
+export function isSeededDrawAllowed(): boolean {
+    return process.env.NODE_ENV !== 'production';
+}
+
+/**
+ * Create a generator that yields the seed's word stream in order
+ */
+export function createSeededWordStream(seed: string): () => number {
+    let counter = 0;
+    let block: Buffer = Buffer.alloc(0);
+    let offset = 0;
+
+    return () => {
+        if (offset >= block.length) {
+            block = createHash('sha256').update(`${seed}:${counter++}`).digest();
+            offset = 0;
+        }
+        const word = block.readUInt16BE(offset);
+        offset += 2;
+        return word;
+    };
+}
@@ -0,0 +1,199 @@
+/**
+ * Slot-Machine Draw — Interactive last-resort fallback from spec/rng.md
+ *
+ * When every remote provider fails, the draw is parked in a pending session.
+ * The client shows a spinning deck and reports each tap. The server turns each
+ * tap into the entropy word for one card, which runs through the same mapping
+ * as provider batches. The client's timing is only recorded, never trusted.
+ *
+ * Sessions live in memory for SESSION_TTL_MS.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import {
+    DrawResponse,
+    RandomOrgProof,
+    RngAttempt,
+    SlotMachinePending,
+    SlotMachineTap,
+    SlotMachineTapResponse,
+} from '@/types';
+import { DrawOptions, DrawState, getReversalPolicy, mapEntropyWord } from '@/domain/rngMapping';
+import { DrawCommitment, createDrawReceipt, encodeDrawReceipt, toReceiptParams } from './receipts';
+import { recordDrawAudit } from './auditLog';
+
+const SESSION_TTL_MS = 2 * 60 * 1000;
+
+interface SlotMachineSession {
+    id: string;
+    nonce: Buffer; // Server secret mixed into every tap word
+    n: number;
+    options: DrawOptions;
+    state: DrawState;
+    attempts: RngAttempt[];
+    proofs: RandomOrgProof[]; // For words the cascade already used
+    committed?: DrawCommitment; // Words committed before the cascade ran short
+    taps: SlotMachineTap[];
+    created_at: string;
+    expires_at: number;
+    result?: DrawResponse;
+    waiters: Array<{ resolve: (result: DrawResponse) => void; reject: (error: Error) => void }>;
+    timer: ReturnType<typeof setTimeout>;
+}
+
+const sessions = new Map<string, SlotMachineSession>();
+
+/**
+ * Park an incomplete draw until the user finishes it with taps
+ * With `committed`, the session keeps its draw id and the taps' words follow the committed ones.
+ */
+export function createSlotMachineSession(
+    n: number,
+    options: DrawOptions,
+    state: DrawState,
+    attempts: RngAttempt[],
+    proofs: RandomOrgProof[] = [],
+    committed?: DrawCommitment
+): SlotMachinePending {
+    const id = committed?.draw_id ?? uuidv4();
+    const expiresAt = Date.now() + SESSION_TTL_MS;
+
+    const session: SlotMachineSession = {
+        id,
+        nonce: randomBytes(32),
+        n,
+        options,
+        state,
+        attempts,
+        proofs,
+        committed,
+        taps: [],
+        created_at: new Date().toISOString(),
+        expires_at: expiresAt,
+        waiters: [],
+        timer: setTimeout(() => expireSession(id), SESSION_TTL_MS),
+    };
+    sessions.set(id, session);
+
+    return {
+        draw_id: id,
+        n,
+        remaining: n - state.draws.length,
+        expires_at: new Date(expiresAt).toISOString(),
+    };
+}
+
+/**
+ * Derive a tap's uint16 word on the server
+ * SHA-256 over the session nonce, the tap index, the server's receive time
+ * and fresh random bytes. The client timing is hashed in too but cannot steer
+ * the result: browsers round it to 0.1-1ms, and its value is untrusted.
+ */
+function tapToWord(session: SlotMachineSession, elapsedMs: number): number {
+    return createHash('sha256')
+        .update(session.nonce)
+        .update(String(session.taps.length))
+        .update(process.hrtime.bigint().toString())
+        .update(randomBytes(16))
+        .update(String(elapsedMs))
+        .digest()
+        .readUInt16BE(0);
+}
+
+/**
+ * Record one tap and map it to a card
+ * Returns null if the session does not exist (unknown, expired or already complete).
+ */
+export function submitSlotMachineTap(drawId: string, elapsedMs: number): SlotMachineTapResponse | null {
+    const session = sessions.get(drawId);
+    if (!session || session.result) {
+        return null;
+    }
+
+    const word = tapToWord(session, elapsedMs);
+    const mapping = mapEntropyWord(word, session.state, session.options);
+
+    let tap: SlotMachineTap;
+    if (mapping.accepted) {
+        tap = { elapsed_ms: elapsedMs, word, accepted: true, card_id: mapping.draw.cardId, reversed: mapping.draw.reversed };
+    } else if (mapping.reason === 'awaiting_orientation') {
+        tap = { elapsed_ms: elapsedMs, word, accepted: false, reason: mapping.reason, card_id: mapping.cardId };
+    } else {
+        tap = { elapsed_ms: elapsedMs, word, accepted: false, reason: mapping.reason };
+    }
+    session.taps.push(tap);
+
+    const remaining = session.n - session.state.draws.length;
+    if (remaining > 0) {
+        return { tap, remaining };
+    }
+
+    const attempt: RngAttempt = {
+        method: 'slot_machine',
+        provider: 'user_taps',
+        started_at: session.created_at,
+        ended_at: new Date().toISOString(),
+        success: true,
+        meta: { taps: session.taps },
+    };
+
+    const receipt = createDrawReceipt(
+        session.id,
+        toReceiptParams(session.n, session.options),
+        session.state.words,
+        session.state.draws,
+        session.proofs,
+        session.committed
+    );
+
+    session.result = {
+        draws: session.state.draws,
+        provenance: {
+            method_used: 'slot_machine',
+            attempts: [...session.attempts, attempt],
+            final_seed_or_receipt: encodeDrawReceipt(receipt),
+            reversal_policy: getReversalPolicy(session.options),
+        },
+    };
+    recordDrawAudit(session.id, session.result, session.options);
+
+    for (const waiter of session.waiters) {
+        waiter.resolve(session.result);
+    }
+    clearTimeout(session.timer);
+    sessions.delete(drawId);
+
+    return { tap, remaining: 0, result: session.result };
+}
+
+/**
+ * Wait for the user to finish a slot-machine draw
+ * Rejects if the session is unknown, expires first, or `signal` aborts (which drops the session).
+ */
+export function waitForSlotMachineDraw(drawId: string, signal?: AbortSignal): Promise<DrawResponse> {
+    const session = sessions.get(drawId);
+    if (!session) {
+        return Promise.reject(new Error(`Unknown slot-machine draw: ${drawId}`));
+    }
+
+    return new Promise((resolve, reject) => {
+        session.waiters.push({ resolve, reject });
+
+        if (signal?.aborted) {
+            expireSession(drawId, 'Slot-machine draw cancelled');
+        }
+        signal?.addEventListener('abort', () => expireSession(drawId, 'Slot-machine draw cancelled'), { once: true });
+    });
+}
+
+function expireSession(drawId: string, reason = 'Slot-machine draw timed out') {
+    const session = sessions.get(drawId);
+    if (!session) return;
+
+    clearTimeout(session.timer);
+    sessions.delete(drawId);
+    for (const waiter of session.waiters) {
+        waiter.reject(new Error(reason));
+    }
+}
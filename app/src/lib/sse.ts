@@ -0,0 +1,35 @@
+/**
+ * SSE Parsing — Client side of the chat event stream
+ *
+ * Messages are separated by a blank line; each carries an `id:` line
+ * (sent back as Last-Event-ID to resume) and a `data:` line with the JSON event.
+ */
+
+import { ChatStreamEvent } from '@/types';
+
+export interface SSEMessage {
+    id: string | null;
+    event: ChatStreamEvent;
+}
+
+/**
+ * Parse one SSE message block; null for comments, keep-alives or bad JSON
+ */
+export function parseSSEMessage(block: string): SSEMessage | null {
+    let id: string | null = null;
+    let data: string | null = null;
+
+    for (const line of block.split('\n')) {
+        if (line.startsWith('id: ')) id = line.slice(4);
+        else if (line.startsWith('data: ')) data = (data === null ? '' : data + '\n') + line.slice(6);
+    }
+    if (data === null) return null;
+
+    try {
+        return { id, event: JSON.parse(data) as ChatStreamEvent };
+    } catch {
+        console.error('Failed to parse SSE event:', data);
+        return null;
+    }
+}
+
@@ -1,15 +1,14 @@
 /**
  * Conversation Summarization
  * 
- * Uses GPT 5.2 Thinking to compress older conversation history into a summary.
+ * Uses the summarizer model (GPT 5.2 Thinking by default, src/config/models.ts)
+ * to compress older conversation history into a summary.
  * Triggered when messages exceed 20 turns.
  */
 
-import OpenAI from 'openai';
-
-const openai = new OpenAI({
-    apiKey: process.env.OPENAI_API_KEY,
-});
+import { getChatModel } from '@/lib/models/registry';
+import { completeChat } from '@/lib/models/providers';
+import { ModelCall } from '@/services/usageService';
 
 const SUMMARIZATION_PROMPT = `You are summarizing a tarot reading conversation between a user and a tarot reader.
 
@@ -25,6 +24,7 @@ Be concise but don't omit anything that would be important for continuing the co
 export interface SummarizationResult {
     summary: string;
     messagesRemoved: number;
+    usage?: ModelCall; // When the provider reported token counts
 }
 
 /**
@@ -64,21 +64,26 @@ export async function summarizeConversation(
     }).join('\n\n');
 
     try {
-        const response = await openai.chat.completions.create({
-            model: 'gpt-5.2',
-            messages: [
-                { role: 'system', content: SUMMARIZATION_PROMPT },
-                { role: 'user', content: contentToSummarize }
-            ],
-            max_completion_tokens: 500,
-            temperature: 0.5,
+        const { provider, config } = getChatModel('summarizer');
+        const response = await completeChat(provider, {
+            model: config.model,
+            system: SUMMARIZATION_PROMPT,
+            messages: [{ role: 'user', content: contentToSummarize }],
+            maxTokens: config.maxTokens,
+            temperature: config.temperature,
         });
 
-        const summary = response.choices[0]?.message?.content || '';
+        const summary = response.text;
 
         return {
             summary: summary.trim(),
             messagesRemoved: toSummarize.length,
+            usage: response.usage && {
+                role: 'summarizer',
+                provider: provider.name,
+                model: config.model,
+                usage: response.usage,
+            },
         };
     } catch (error) {
         console.error('Summarization error:', error);
@@ -4,5 +4,8 @@
  * Central export for all system prompts used in the dual-model architecture.
  */
 
-export { MINI_SYSTEM_PROMPT } from './mini-system';
-export { THINKING_SYSTEM_PROMPT } from './thinking-system';
+export { MINI_SYSTEM_PROMPT, MINI_SYSTEM_PROMPT_V1_1 } from './mini-system';
+export { THINKING_SYSTEM_PROMPT, THINKING_SYSTEM_PROMPT_V2, THINKING_OUTPUT_FORMATS } from './thinking-system';
+export { THINKING_POSITIONS_PROMPT } from './thinking-positions';
+export { getPrompt, getPromptVariants } from './registry';
+export type { PromptName, PromptVariant, ResolvedPrompt } from './registry';
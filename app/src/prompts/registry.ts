@@ -0,0 +1,131 @@
+/**
+ * Prompt Registry — Versioned system prompts with A/B variants
+ *
+ * Every prompt has a name and semantic versions. A template may contain
+ * {{variable}} placeholders, filled in when the prompt is resolved. When a
+ * prompt lists more than one variant, each chat session is assigned one by a
+ * stable hash of the session id, weighted, so a session keeps its variant
+ * across turns. Without a session id the first variant is used.
+ *
+ * Bump the version whenever a template changes, so results stay traceable
+ * to the exact prompt (AiInterpretationResult.prompt_id / prompt_version).
+ *
+ * Env overrides (NAME = MINI_SYSTEM | THINKING_SYSTEM | THINKING_POSITIONS):
+ * - PROMPT_<NAME>_VARIANTS=1.0.0:50,1.1.0:50 (version:weight; a single version pins it)
+ */
+
+import { createHash } from 'crypto';
+import { MINI_SYSTEM_PROMPT, MINI_SYSTEM_PROMPT_V1_1 } from './mini-system';
+import { THINKING_SYSTEM_PROMPT, THINKING_SYSTEM_PROMPT_V2 } from './thinking-system';
+import { THINKING_POSITIONS_PROMPT } from './thinking-positions';
+
+export type PromptName = 'mini-system' | 'thinking-system' | 'thinking-positions';
+
+interface PromptVersion {
+    template: string;
+    variables: string[]; // Placeholders the template needs
+}
+
+export interface PromptVariant {
+    version: string;
+    weight: number;
+}
+
+interface PromptDefinition {
+    versions: Record<string, PromptVersion>;
+    variants: PromptVariant[]; // First one is the default
+}
+
+export interface ResolvedPrompt {
+    id: PromptName;
+    version: string;
+    text: string;
+}
+
+const PROMPTS: Record<PromptName, PromptDefinition> = {
+    'mini-system': {
+        versions: {
+            '1.0.0': { template: MINI_SYSTEM_PROMPT, variables: [] },
+            '1.1.0': { template: MINI_SYSTEM_PROMPT_V1_1, variables: [] },
+        },
+        variants: [{ version: '1.1.0', weight: 1 }],
+    },
+    'thinking-system': {
+        versions: {
+            '1.0.0': { template: THINKING_SYSTEM_PROMPT, variables: [] },
+            '2.0.0': { template: THINKING_SYSTEM_PROMPT_V2, variables: ['output_format'] },
+        },
+        variants: [{ version: '2.0.0', weight: 1 }],
+    },
+    'thinking-positions': {
+        versions: {
+            '1.0.0': { template: THINKING_POSITIONS_PROMPT, variables: ['positions', 'focus'] },
+        },
+        variants: [{ version: '1.0.0', weight: 1 }],
+    },
+};
+
+const SEMVER = /^\d+\.\d+\.\d+$/;
+
+/**
+ * A prompt's variants with the env override applied
+ * Unknown versions and bad weights make the override be ignored with a warning.
+ */
+export function getPromptVariants(name: PromptName): PromptVariant[] {
+    const definition = PROMPTS[name];
+    const envName = `PROMPT_${name.toUpperCase().replace(/-/g, '_')}_VARIANTS`;
+    const raw = process.env[envName]?.trim();
+    if (!raw) return definition.variants;
+
+    const variants = raw.split(',').map(entry => {
+        const [version, weight] = entry.trim().split(':');
+        return { version, weight: weight === undefined ? 1 : Number(weight) };
+    });
+
+    const invalid = variants.find(v => !SEMVER.test(v.version) || !definition.versions[v.version] || !(v.weight > 0));
+    if (invalid) {
+        console.warn(`${envName}: "${invalid.version}" is not a known version of ${name} with a positive weight`);
+        return definition.variants;
+    }
+    return variants;
+}
+
+/**
+ * Pick a session's variant: the same session id always lands on the same one
+ */
+function assignVariant(name: PromptName, variants: PromptVariant[], sessionId?: string): PromptVariant {
+    if (!sessionId || variants.length === 1) return variants[0];
+
+    const totalWeight = variants.reduce((sum, v) => sum + v.weight, 0);
+    const hash = createHash('sha256').update(`${name}:${sessionId}`).digest().readUInt32BE(0);
+    let point = (hash / 0x1_0000_0000) * totalWeight;
+
+    for (const variant of variants) {
+        point -= variant.weight;
+        if (point < 0) return variant;
+    }
+    return variants[variants.length - 1];
+}
+
+/**
+ * Resolve a prompt for a session and fill in its variables
+ * Throws if a variable the template needs is missing.
+ */
+export function getPrompt(
+    name: PromptName,
+    options: { sessionId?: string; variables?: Record<string, string> } = {}
+): ResolvedPrompt {
+    const { version } = assignVariant(name, getPromptVariants(name), options.sessionId);
+    const { template, variables } = PROMPTS[name].versions[version];
+
+    const missing = variables.filter(v => options.variables?.[v] === undefined);
+    if (missing.length > 0) {
+        throw new Error(`Prompt ${name}@${version} needs ${missing.join(', ')}`);
+    }
+
+    const text = template.replace(/\{\{(\w+)\}\}/g, (match, variable: string) =>
+        variables.includes(variable) ? options.variables![variable] : match
+    );
+
+    return { id: name, version, text };
+}
@@ -0,0 +1,78 @@
+/**
+ * Audit Service — Fairness report over the RNG audit log
+ *
+ * Card frequencies are tested against what each draw could produce: a draw of
+ * n cards from a pool of P adds n / P to the expectation of every pool card
+ * (exact for unique draws too, since each card is equally likely at any spot).
+ * Reversals are tested only for the uniform and probability policies.
+ */
+
+import { RngAuditCardStats, RngAuditReport } from '@/types';
+import { TOTAL_CARDS } from '@/domain/rngMapping';
+import { chiSquareTest } from '@/domain/statistics';
+import { readAuditEntries } from '@/lib/rng/auditLog';
+import { getAllCards } from './cardService';
+
+/**
+ * Build the fairness report for draws with from <= at < to
+ */
+export async function buildAuditReport(from?: Date, to?: Date): Promise<RngAuditReport> {
+    const entries = await readAuditEntries(from, to);
+
+    const cardStats: RngAuditCardStats[] = getAllCards().map(card => ({
+        card_id: card.id,
+        name: card.name,
+        count: 0,
+        expected: 0,
+        reversed: 0,
+    }));
+    const providerDraws = new Map<string, number>();
+    let cards = 0;
+    let reversalTotal = 0;
+    let reversed = 0;
+    let expectedReversed = 0;
+
+    for (const entry of entries) {
+        const n = entry.draws.length;
+        const pool = entry.card_pool ?? Array.from({ length: TOTAL_CARDS }, (_, id) => id);
+        for (const cardId of pool) {
+            cardStats[cardId].expected += n / pool.length;
+        }
+
+        const policy = entry.reversal_policy;
+        const reversalP = policy.type === 'uniform' ? 0.5 : policy.type === 'probability' ? policy.p : null;
+
+        for (const draw of entry.draws) {
+            cardStats[draw.cardId].count++;
+            if (draw.reversed) cardStats[draw.cardId].reversed++;
+
+            if (reversalP !== null) {
+                reversalTotal++;
+                expectedReversed += reversalP;
+                if (draw.reversed) reversed++;
+            }
+        }
+
+        cards += n;
+        providerDraws.set(entry.provider, (providerDraws.get(entry.provider) ?? 0) + 1);
+    }
+
+    return {
+        from: from?.toISOString(),
+        to: to?.toISOString(),
+        draws: entries.length,
+        cards,
+        card_frequency: cardStats,
+        frequency_test: chiSquareTest(cardStats.map(c => c.count), cardStats.map(c => c.expected)),
+        reversals: {
+            reversed,
+            total: reversalTotal,
+            ratio: reversalTotal > 0 ? reversed / reversalTotal : 0,
+            expected_ratio: reversalTotal > 0 ? expectedReversed / reversalTotal : 0,
+            test: chiSquareTest([reversed, reversalTotal - reversed], [expectedReversed, reversalTotal - expectedReversed]),
+        },
+        providers: [...providerDraws]
+            .map(([provider, draws]) => ({ provider, draws, share: draws / entries.length }))
+            .sort((a, b) => b.draws - a.draws),
+    };
+}
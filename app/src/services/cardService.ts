@@ -2,7 +2,7 @@
  * Card Service — Load and access tarot card data
  */
 
-import { Card } from '@/types';
+import { Card, CardPool, CardPoolFilter } from '@/types';
 import cardsData from '../../cards.json';
 
 // Cache the cards array
@@ -40,6 +40,57 @@ export function getCardsBySuit(suit: 'wands' | 'cups' | 'swords' | 'pentacles'):
     return getAllCards().filter(card => card.suit === suit);
 }
 
+/**
+ * Search cards by name (case-insensitive)
+ * Names starting with the query rank before names that merely contain it.
+ */
+export function searchCards(query: string, limit: number = 8): Card[] {
+    const q = query.trim().toLowerCase();
+    if (!q) return [];
+
+    const matches = getAllCards().filter(card => card.name.toLowerCase().includes(q));
+    const startsWith = matches.filter(card => card.name.toLowerCase().startsWith(q));
+    const contains = matches.filter(card => !card.name.toLowerCase().startsWith(q));
+
+    return [...startsWith, ...contains].slice(0, limit);
+}
+
+/**
+ * Resolve a card pool filter to the matching cards (criteria combine with AND)
+ */
+export function resolveCardPool(filter: CardPoolFilter): CardPool {
+    const cardIds = getAllCards()
+        .filter(card => !filter.arcana || card.arcana === filter.arcana)
+        .filter(card => !filter.suits || filter.suits.length === 0 || (card.suit !== null && filter.suits.includes(card.suit)))
+        .filter(card => !filter.card_ids || filter.card_ids.length === 0 || filter.card_ids.includes(card.id))
+        .map(card => card.id)
+        .sort((a, b) => a - b);
+
+    return { filter, card_ids: cardIds };
+}
+
+/**
+ * Describe a card pool in words, e.g. "Major Arcana only (22 cards)"
+ */
+export function describeCardPool(pool: CardPool): string {
+    const { arcana, suits, card_ids } = pool.filter;
+    const parts: string[] = [];
+
+    if (arcana) {
+        parts.push(arcana === 'major' ? 'Major Arcana' : 'Minor Arcana');
+    }
+    if (suits && suits.length > 0) {
+        parts.push(suits.map(suit => suit.charAt(0).toUpperCase() + suit.slice(1)).join(' and '));
+    }
+    if (card_ids && card_ids.length > 0) {
+        parts.push(pool.card_ids.length <= 10
+            ? pool.card_ids.map(id => getCardById(id)?.name ?? `#${id}`).join(', ')
+            : 'a hand-picked set');
+    }
+
+    return `${parts.join(', ') || 'Full deck'} only (${pool.card_ids.length} cards)`;
+}
+
 /**
  * Get card metadata (from cards.json meta field)
  */
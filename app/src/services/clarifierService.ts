@@ -0,0 +1,118 @@
+/**
+ * Clarifier Service — Draw extra cards onto a laid spread
+ *
+ * A clarifier (or shadow card) attaches to one position or to the whole spread.
+ * It is drawn through the RNG engine from the remaining deck: the spread's card
+ * pool (full deck by default) minus every card already on the table. In shuffle
+ * mode it is dealt from the session deck instead, skipping cards on the table.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { Card, ClarifierKind, DrawResponse, ReadingClarifier, ReversalPolicy, SlotMachinePending, SpreadClarifier, SpreadWithCards } from '@/types';
+import { getReversalPolicy } from '@/domain/rngMapping';
+import { drawCards } from './rngService';
+import { dealFromSessionDeck } from './deckService';
+import { getAllCards, getCardById } from './cardService';
+
+export interface ClarifierParams {
+    spread: SpreadWithCards;
+    positionIndex: number | null; // null = whole spread
+    kind: ClarifierKind;
+    allowReversals: boolean;
+    reversalPolicy?: ReversalPolicy; // Jumpers only come from the shuffled deck; elsewhere 'jumper' draws upright
+    seed?: string;
+    sessionId?: string; // Shuffle mode: deal from this session's deck (not for seeded or filtered spreads)
+    // Called when remote entropy fails; without it the clarifier fails instead
+    onSlotMachineRequired?: (pending: SlotMachinePending) => Promise<DrawResponse>;
+}
+
+export type ClarifierResult =
+    | { success: true; clarifier: SpreadClarifier; spreadWithCards: SpreadWithCards }
+    | { success: false; error: string };
+
+/**
+ * Card ids still in the deck: the spread's pool minus cards on the table
+ */
+export function getRemainingCardIds(spread: SpreadWithCards): number[] {
+    const onTable = new Set([
+        ...spread.cards.map(c => c.card.id),
+        ...(spread.clarifiers ?? []).map(c => c.card.id),
+    ]);
+    const pool = spread.card_pool?.card_ids ?? getAllCards().map(card => card.id);
+
+    return pool.filter(id => !onTable.has(id));
+}
+
+/**
+ * Draw one clarifier and append it to the spread
+ */
+export async function drawClarifier(params: ClarifierParams): Promise<ClarifierResult> {
+    const { spread, positionIndex, kind, allowReversals, reversalPolicy, seed, sessionId } = params;
+
+    if (positionIndex !== null && !spread.spread.positions.some(p => p.index === positionIndex)) {
+        return { success: false, error: `Position ${positionIndex + 1} does not exist in ${spread.spread.name}` };
+    }
+
+    const remaining = getRemainingCardIds(spread);
+    if (remaining.length === 0) {
+        return { success: false, error: 'No cards left in the deck to draw from' };
+    }
+
+    let drawResult: DrawResponse;
+    if (sessionId && seed === undefined && !spread.card_pool) {
+        // The next card on the session deck that is not on the table; cards dealt earlier stay out until a reshuffle
+        const policy = getReversalPolicy({ allowReversals, reversalPolicy });
+        const dealt = await dealFromSessionDeck(sessionId, 1, policy, remaining);
+        if (!dealt.success) {
+            return { success: false, error: dealt.error };
+        }
+        drawResult = dealt.value;
+    } else {
+        const drawn = await drawCards({
+            n: 1,
+            allowDuplicates: false,
+            allowReversals,
+            reversalPolicy: reversalPolicy?.type === 'jumper' ? { type: 'none' } : reversalPolicy,
+            seed,
+            cardPool: { card_ids: remaining },
+        });
+        if (!drawn.success) {
+            return { success: false, error: drawn.error };
+        }
+        drawResult = drawn.response;
+    }
+
+    if (drawResult.slot_machine) {
+        if (!params.onSlotMachineRequired) {
+            return { success: false, error: 'Remote entropy unavailable; try again shortly' };
+        }
+        drawResult = await params.onSlotMachineRequired(drawResult.slot_machine);
+    }
+
+    const [draw] = drawResult.draws;
+    const clarifier: SpreadClarifier = {
+        id: uuidv4(),
+        position_index: positionIndex,
+        kind,
+        card: getCardById(draw.cardId) as Card,
+        reversed: draw.reversed,
+        drawn_at: new Date().toISOString(),
+        rng: drawResult.provenance,
+    };
+
+    return {
+        success: true,
+        clarifier,
+        spreadWithCards: {
+            ...spread,
+            clarifiers: [...(spread.clarifiers ?? []), clarifier],
+        },
+    };
+}
+
+/**
+ * Strip the card data for storage on a Reading
+ */
+export function toReadingClarifier({ card, ...clarifier }: SpreadClarifier): ReadingClarifier {
+    return { ...clarifier, card_id: card.id };
+}
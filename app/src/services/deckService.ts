@@ -0,0 +1,227 @@
+/**
+ * Deck Service — Session decks for the shuffle draw mode
+ *
+ * Each chat session keeps an ordered 78-card deck in server memory. Shuffles
+ * use provider entropy (src/services/rngService.ts), the user can cut, and
+ * cards are dealt from the top. Orientation follows the reversal policy: the
+ * orientation in the deck (uniform), jumpers only, or fresh orientation words
+ * (probability). Dealt cards stay out until the next shuffle, which gathers them back.
+ *
+ * Decks idle for DECK_TTL_MS are dropped.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { CardDraw, DeckOperation, DeckStatus, DrawResponse, ReversalPolicy, RngAttempt } from '@/types';
+import { createOrderedDeck, cut, shuffleDeck } from '@/domain/deckShuffle';
+import { reversedWithProbability } from '@/domain/rngMapping';
+import { recordDrawAudit } from '@/lib/rng/auditLog';
+import { drawEntropyWords } from './rngService';
+
+const DECK_TTL_MS = 6 * 60 * 60 * 1000;
+const SHUFFLE_WORDS = 1024; // Comfortably more than a full shuffle consumes
+const SPARE_ORIENTATION_WORDS = 8; // Covers rejected orientation words
+
+interface SessionDeck {
+    sessionId: string;
+    cards: CardDraw[]; // Top first
+    dealt: CardDraw[];
+    operations: DeckOperation[];
+    operationsRecorded: number; // Operations already in a deal's provenance
+    updatedAt: number;
+}
+
+export type DeckResult<T> =
+    | { success: true; value: T }
+    | { success: false; error: string };
+
+const decks = new Map<string, SessionDeck>();
+
+function getDeck(sessionId: string): SessionDeck {
+    const now = Date.now();
+    for (const [id, deck] of decks) {
+        if (now - deck.updatedAt > DECK_TTL_MS) decks.delete(id);
+    }
+
+    let deck = decks.get(sessionId);
+    if (!deck) {
+        deck = { sessionId, cards: createOrderedDeck(), dealt: [], operations: [], operationsRecorded: 0, updatedAt: now };
+        decks.set(sessionId, deck);
+    }
+    return deck;
+}
+
+function toStatus(deck: SessionDeck): DeckStatus {
+    return {
+        session_id: deck.sessionId,
+        remaining: deck.cards.length,
+        dealt: [...deck.dealt],
+        operations: [...deck.operations],
+        updated_at: new Date(deck.updatedAt).toISOString(),
+    };
+}
+
+/**
+ * Current state of a session's deck (the order itself stays hidden)
+ */
+export function getDeckStatus(sessionId: string): DeckStatus {
+    return toStatus(getDeck(sessionId));
+}
+
+/**
+ * Gather dealt cards back into the deck and shuffle it
+ */
+export async function shuffleSessionDeck(sessionId: string): Promise<DeckResult<DeckStatus>> {
+    const deck = getDeck(sessionId);
+    const { words, attempts } = await drawEntropyWords(SHUFFLE_WORDS);
+    if (words.length < SHUFFLE_WORDS) {
+        return { success: false, error: 'Not enough entropy to shuffle the deck; try again shortly' };
+    }
+
+    let wordsUsed = 0;
+    const nextWord = () => {
+        if (wordsUsed >= words.length) {
+            throw new Error('Shuffle ran out of entropy words');
+        }
+        return words[wordsUsed++];
+    };
+
+    const gathered = deck.dealt.length;
+    const { deck: shuffled, steps } = shuffleDeck([...deck.cards, ...deck.dealt], nextWord);
+
+    deck.cards = shuffled;
+    deck.dealt = [];
+    deck.updatedAt = Date.now();
+    deck.operations.push({
+        type: 'shuffle',
+        id: uuidv4(),
+        at: new Date(deck.updatedAt).toISOString(),
+        gathered,
+        steps,
+        words_used: wordsUsed,
+        entropy: attempts,
+    });
+
+    return { success: true, value: toStatus(deck) };
+}
+
+/**
+ * Cut the deck where the user chose
+ */
+export function cutSessionDeck(sessionId: string, position: number): DeckResult<DeckStatus> {
+    const deck = getDeck(sessionId);
+    if (!Number.isInteger(position) || position < 1 || position >= deck.cards.length) {
+        return { success: false, error: `Cut position must be between 1 and ${deck.cards.length - 1}` };
+    }
+
+    deck.cards = cut(deck.cards, position).deck;
+    deck.updatedAt = Date.now();
+    deck.operations.push({ type: 'cut', at: new Date(deck.updatedAt).toISOString(), position, by: 'user' });
+
+    return { success: true, value: toStatus(deck) };
+}
+
+/**
+ * Deal n cards from the top of the session deck
+ * A never-shuffled deck, or one with fewer than n cards left, is shuffled first.
+ * With eligibleCardIds, other cards are passed over and stay in the deck in order.
+ */
+export async function dealFromSessionDeck(
+    sessionId: string,
+    n: number,
+    reversalPolicy: ReversalPolicy,
+    eligibleCardIds?: number[]
+): Promise<DeckResult<DrawResponse>> {
+    const deck = getDeck(sessionId);
+    if (n < 1 || n > deck.cards.length + deck.dealt.length) {
+        return { success: false, error: `Cannot deal ${n} cards from a deck of ${deck.cards.length + deck.dealt.length}` };
+    }
+
+    const isEligible = (card: CardDraw) => !eligibleCardIds || eligibleCardIds.includes(card.cardId);
+    const neverShuffled = !deck.operations.some(op => op.type === 'shuffle');
+    if (neverShuffled || deck.cards.filter(isEligible).length < n) {
+        const shuffled = await shuffleSessionDeck(sessionId);
+        if (!shuffled.success) return shuffled;
+    }
+
+    // Deck positions of the cards to deal, checked before anything is dealt or audited
+    const picked = deck.cards
+        .map((card, index) => isEligible(card) ? index : -1)
+        .filter(index => index !== -1)
+        .slice(0, n);
+    if (picked.length < n) {
+        return { success: false, error: `Not enough eligible cards in the deck to deal ${n}` };
+    }
+
+    const startedAt = new Date().toISOString();
+
+    // Probability policy: each dealt card is turned by its own orientation word
+    let orientations: boolean[] = [];
+    let orientationEntropy: RngAttempt[] = [];
+    if (reversalPolicy.type === 'probability') {
+        const { words, attempts } = await drawEntropyWords(n + SPARE_ORIENTATION_WORDS);
+        orientations = words
+            .map(word => reversedWithProbability(word, reversalPolicy.p))
+            .filter((reversed): reversed is boolean => reversed !== null)
+            .slice(0, n);
+        orientationEntropy = attempts;
+        if (orientations.length < n) {
+            return { success: false, error: 'Not enough entropy to turn the cards; try again shortly' };
+        }
+    }
+
+    const dealtBefore = deck.dealt.length;
+    const passedOver = picked[n - 1] + 1 - n;
+    const cards = picked.map(index => deck.cards[index]);
+    deck.cards = deck.cards.filter((_, index) => !picked.includes(index));
+    deck.dealt.push(...cards);
+    deck.updatedAt = Date.now();
+
+    // Each deal records only what happened since the previous one, plus the shuffle it deals from
+    const lastShuffle = deck.operations.findLast(op => op.type === 'shuffle');
+    const operations = deck.operations.slice(deck.operationsRecorded);
+    deck.operationsRecorded = deck.operations.length;
+
+    const draws = cards.map((card, index): CardDraw => {
+        switch (reversalPolicy.type) {
+            case 'none':
+                return { cardId: card.cardId, reversed: false };
+            case 'uniform':
+                return { cardId: card.cardId, reversed: card.reversed };
+            case 'probability':
+                return { cardId: card.cardId, reversed: orientations[index] };
+            case 'jumper':
+                return card.jumper
+                    ? { cardId: card.cardId, reversed: true, jumper: true }
+                    : { cardId: card.cardId, reversed: false };
+        }
+    });
+
+    const attempt: RngAttempt = {
+        method: 'shuffle',
+        provider: 'session_deck',
+        started_at: startedAt,
+        ended_at: new Date().toISOString(),
+        success: true,
+        meta: {
+            session_id: sessionId,
+            dealt_before: dealtBefore,
+            dealt: cards,
+            ...(passedOver > 0 && { passed_over: passedOver }),
+            shuffle_id: lastShuffle?.id,
+            operations,
+            ...(reversalPolicy.type === 'probability' && { orientation_entropy: orientationEntropy }),
+        },
+    };
+
+    const response: DrawResponse = {
+        draws,
+        provenance: { method_used: 'shuffle', attempts: [attempt], reversal_policy: reversalPolicy },
+    };
+    recordDrawAudit(uuidv4(), response, {
+        allowDuplicates: false,
+        allowReversals: reversalPolicy.type !== 'none',
+        reversalPolicy,
+    });
+
+    return { success: true, value: response };
+}
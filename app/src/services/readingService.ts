@@ -0,0 +1,148 @@
+/**
+ * Reading Service — Build readings from a spread selection and placed cards
+ *
+ * Shared by every way a spread can be laid (RNG draw, manual entry).
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { getSystemSpreads, createSpreadSnapshot, getSpreadBySlug } from './spreadService';
+import { getAllCards } from './cardService';
+import { toReadingClarifier } from './clarifierService';
+import { Card, CardPool, Reading, ReadingCard, ReversalPolicy, RngProvenance, SpreadSnapshot, SpreadWithCards } from '@/types';
+
+export interface SpreadSelection {
+    spread_slug?: string;
+    custom_positions?: string[];
+}
+
+export type SpreadSelectionResult =
+    | { success: true; snapshot: SpreadSnapshot }
+    | { success: false; error: string };
+
+/**
+ * Resolve a built-in spread slug or custom positions into a spread snapshot
+ */
+export function resolveSpreadSelection({ spread_slug, custom_positions }: SpreadSelection): SpreadSelectionResult {
+    if (spread_slug) {
+        // Use built-in spread
+        const spread = getSpreadBySlug(spread_slug);
+        if (!spread) {
+            return {
+                success: false,
+                error: `Unknown spread: ${spread_slug}. Available spreads: ${getSystemSpreads().map(s => s.slug).join(', ')}`
+            };
+        }
+        return { success: true, snapshot: createSpreadSnapshot(spread) };
+    }
+
+    if (custom_positions && custom_positions.length > 0) {
+        // Create custom spread
+        const positions = custom_positions.map((meaning, index) => ({ index, meaning }));
+        const spreadId = 'custom_' + uuidv4();
+        return {
+            success: true,
+            snapshot: {
+                name: 'Custom Spread',
+                purpose: 'A custom spread created for this reading',
+                n_cards: positions.length,
+                positions,
+                layout_descriptor: positions.map((_, i) => i + 1).join(' '), // Simple row layout
+                source: {
+                    type: 'custom',
+                    spread_id: spreadId,
+                },
+            },
+        };
+    }
+
+    return {
+        success: false,
+        error: 'Must provide either spread_slug or custom_positions'
+    };
+}
+
+/**
+ * Create a reading from a spread snapshot and the cards placed on it
+ */
+export function createReading(params: {
+    snapshot: SpreadSnapshot;
+    question: string;
+    cards: ReadingCard[];
+    rng: RngProvenance;
+    allowDuplicates?: boolean;
+    allowReversals?: boolean;
+    reversalPolicy?: ReversalPolicy;
+    cardPool?: CardPool;
+}): Reading {
+    const { snapshot, question, cards, rng, allowDuplicates = false, allowReversals = true, reversalPolicy, cardPool } = params;
+
+    return {
+        id: uuidv4(),
+        created_at: new Date().toISOString(),
+        spread_id: snapshot.source.spread_id,
+        spread_snapshot: snapshot,
+        question,
+        allow_duplicates: allowDuplicates,
+        allow_reversals: reversalPolicy ? reversalPolicy.type !== 'none' : allowReversals,
+        reversal_policy: reversalPolicy,
+        cards,
+        card_pool: cardPool,
+        rng,
+    };
+}
+
+/**
+ * Build the SpreadWithCards view of a reading (used for AI context and the viewer)
+ */
+export function toSpreadWithCards(reading: Reading): SpreadWithCards {
+    const allCards = getAllCards();
+
+    return {
+        reading_id: reading.id,
+        question: reading.question,
+        created_at: reading.created_at,
+        spread: reading.spread_snapshot,
+        cards: reading.cards.map(rc => ({
+            position_index: rc.position_index,
+            card: allCards.find(c => c.id === rc.card_id) as Card,
+            reversed: rc.reversed,
+            ...(rc.jumper && { jumper: true }),
+        })),
+        card_pool: reading.card_pool,
+        allow_duplicates: reading.allow_duplicates,
+        reversal_policy: reading.reversal_policy,
+        rng: reading.rng,
+        clarifiers: reading.clarifiers?.map(({ card_id, ...clarifier }) => ({
+            ...clarifier,
+            card: allCards.find(c => c.id === card_id) as Card,
+        })),
+    };
+}
+
+/**
+ * Rebuild the reading behind a SpreadWithCards (e.g. for the spread ledger)
+ */
+export function fromSpreadWithCards(spread: SpreadWithCards): Reading {
+    return {
+        id: spread.reading_id,
+        // Older spreads did not carry it: the draw's first attempt is the closest record
+        created_at: spread.created_at ?? spread.rng?.attempts[0]?.started_at ?? new Date().toISOString(),
+        spread_id: spread.spread.source.spread_id,
+        spread_snapshot: spread.spread,
+        question: spread.question,
+        allow_duplicates: spread.allow_duplicates ?? false,
+        allow_reversals: spread.reversal_policy ? spread.reversal_policy.type !== 'none' : true,
+        reversal_policy: spread.reversal_policy,
+        cards: spread.cards.map(c => ({
+            position_index: c.position_index,
+            card_id: c.card.id,
+            reversed: c.reversed,
+            ...(c.jumper && { jumper: true }),
+        })),
+        card_pool: spread.card_pool,
+        clarifiers: spread.clarifiers?.map(toReadingClarifier),
+        // Older spreads did not carry their provenance
+        rng: spread.rng ?? { method_used: 'fallback', attempts: [] },
+        ai: spread.ai,
+    };
+}
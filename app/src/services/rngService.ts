@@ -0,0 +1,338 @@
+/**
+ * RNG Service — The draw engine from spec/rng.md
+ *
+ * Words come from the prefetched entropy pool (src/lib/rng/entropyPool.ts) first;
+ * when it runs dry, the draw fetches live. A draw gathers its words and commits
+ * to them (src/lib/rng/receipts.ts) before any word is mapped to a card.
+ *
+ * Cascade order comes from the entropy provider registry (src/lib/rng/registry.ts),
+ * configured in src/config/rng.ts. Default:
+ * 1. ANU QRNG (primary)
+ * 2. random.org (fallback)
+ * 3. Slot machine (interactive, see src/lib/rng/slotMachine.ts)
+ *
+ * With `seed` (development and test only), the draw is deterministic instead:
+ * see src/lib/rng/seeded.ts.
+ *
+ * Called in-process by /api/rng/draw and the draw_cards chat tool.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { CardPoolFilter, CardSuit, DrawReceipt, DrawRequest, DrawResponse, RandomOrgProof, ReversalPolicy, RngAttempt, RngProvenance } from '@/types';
+import { getProviderCascade } from '@/lib/rng/registry';
+import { createSlotMachineSession } from '@/lib/rng/slotMachine';
+import { commitDrawWords, createDrawReceipt, encodeDrawReceipt, toReceiptParams } from '@/lib/rng/receipts';
+import { fetchEntropyBatch } from '@/lib/rng/fetchBatch';
+import { takeFromPool } from '@/lib/rng/entropyPool';
+import { recordDrawAudit } from '@/lib/rng/auditLog';
+import { proofsFromPoolAttempt, toRandomOrgProof } from '@/lib/rng/randomOrgSignature';
+import { SEEDED_ALGORITHM, createSeededWordStream, isSeededDrawAllowed } from '@/lib/rng/seeded';
+import { DrawOptions, TOTAL_CARDS, createDrawState, getReversalPolicy, mapEntropyWord } from '@/domain/rngMapping';
+import { resolveCardPool } from './cardService';
+
+export type DrawErrorCode = 'invalid_request' | 'seed_not_allowed';
+
+export type DrawCardsResult =
+    | { success: true; response: DrawResponse }
+    | { success: false; code: DrawErrorCode; error: string };
+
+export interface DrawHooks {
+    // Called once the draw's words are fixed, before any is mapped to a card
+    onCommitted?: (commitment: Pick<DrawReceipt, 'draw_id' | 'commitment'>) => void;
+}
+
+/**
+ * Check a draw request
+ * Returns null if valid.
+ */
+export function validateDrawRequest(request: DrawRequest): { code: DrawErrorCode; error: string } | null {
+    const { n, allowDuplicates = false, reversalPolicy, seed, cardPool } = request;
+
+    if (!n || n < 1) {
+        return { code: 'invalid_request', error: 'n must be at least 1' };
+    }
+    if (reversalPolicy) {
+        const policyError = validateReversalPolicy(reversalPolicy);
+        if (policyError) {
+            return { code: 'invalid_request', error: policyError };
+        }
+        if (reversalPolicy.type === 'jumper') {
+            return { code: 'invalid_request', error: 'The jumper reversal policy only applies when dealing from the shuffled deck' };
+        }
+    }
+    if (cardPool) {
+        const poolError = validateCardPoolFilter(cardPool);
+        if (poolError) {
+            return { code: 'invalid_request', error: poolError };
+        }
+        const poolSize = resolveCardPool(cardPool).card_ids.length;
+        if (poolSize === 0) {
+            return { code: 'invalid_request', error: 'The card pool filter matches no cards' };
+        }
+        if (!allowDuplicates && n > poolSize) {
+            return { code: 'invalid_request', error: `Cannot draw ${n} unique cards from a pool of ${poolSize}` };
+        }
+    } else if (!allowDuplicates && n > TOTAL_CARDS) {
+        return { code: 'invalid_request', error: `Cannot draw ${n} unique cards from a deck of ${TOTAL_CARDS}` };
+    }
+    if (seed !== undefined) {
+        if (!isSeededDrawAllowed()) {
+            return { code: 'seed_not_allowed', error: 'Seeded draws are disabled in production' };
+        }
+        if (typeof seed !== 'string' || seed.length === 0) {
+            return { code: 'invalid_request', error: 'seed must be a non-empty string' };
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Check the shape of a reversal policy
+ * Returns an error message, or null if valid.
+ */
+export function validateReversalPolicy(policy: ReversalPolicy): string | null {
+    if (!['none', 'uniform', 'probability', 'jumper'].includes(policy?.type)) {
+        return 'reversalPolicy.type must be "none", "uniform", "probability" or "jumper"';
+    }
+    if (policy.type === 'probability' && !(typeof policy.p === 'number' && policy.p >= 0 && policy.p <= 1)) {
+        return 'reversalPolicy.p must be a number between 0 and 1';
+    }
+
+    return null;
+}
+
+/**
+ * Check the shape of a card pool filter
+ * Returns an error message, or null if valid.
+ */
+function validateCardPoolFilter(filter: CardPoolFilter): string | null {
+    const suits: CardSuit[] = ['wands', 'cups', 'swords', 'pentacles'];
+
+    if (filter.arcana !== undefined && filter.arcana !== 'major' && filter.arcana !== 'minor') {
+        return 'cardPool.arcana must be "major" or "minor"';
+    }
+    if (filter.suits !== undefined && (!Array.isArray(filter.suits) || filter.suits.some(suit => !suits.includes(suit)))) {
+        return `cardPool.suits must only contain ${suits.join(', ')}`;
+    }
+    if (filter.card_ids !== undefined && (!Array.isArray(filter.card_ids)
+        || filter.card_ids.some(id => !Number.isInteger(id) || id < 0 || id >= TOTAL_CARDS))) {
+        return `cardPool.card_ids must be card ids between 0 and ${TOTAL_CARDS - 1}`;
+    }
+
+    return null;
+}
+
+/**
+ * Draw cards for a request
+ * Validates first; the response carries `slot_machine` if the draw still needs taps.
+ */
+export async function drawCards(request: DrawRequest, hooks: DrawHooks = {}): Promise<DrawCardsResult> {
+    const validation = validateDrawRequest(request);
+    if (validation) {
+        return { success: false, ...validation };
+    }
+
+    const { n, allowDuplicates = false, allowReversals = true, reversalPolicy, seed, cardPool } = request;
+    const policy = getReversalPolicy({ allowReversals, reversalPolicy });
+    const options: DrawOptions = {
+        allowDuplicates,
+        allowReversals: policy.type !== 'none',
+        reversalPolicy: policy,
+        cardPool: cardPool && resolveCardPool(cardPool).card_ids,
+    };
+    const response = seed !== undefined
+        ? drawSeededCards(n, options, seed, hooks)
+        : await drawFromCascade(n, options, hooks);
+
+    return { success: true, response };
+}
+
+/**
+ * Get raw uint16 words (pool first, then live providers), e.g. to shuffle a deck
+ * May return fewer than `count` words if every source fails. `proofs` cover
+ * the words from signed random.org batches.
+ */
+export async function drawEntropyWords(
+    count: number
+): Promise<{ words: number[]; attempts: RngAttempt[]; proofs: RandomOrgProof[] }> {
+    const words: number[] = [];
+    const attempts: RngAttempt[] = [];
+    const proofs: RandomOrgProof[] = [];
+
+    const fromPool = takeFromPool(count);
+    if (fromPool) {
+        words.push(...fromPool.words);
+        attempts.push(fromPool.attempt);
+        proofs.push(...proofsFromPoolAttempt(fromPool.attempt, 0));
+    }
+
+    for (const entry of getProviderCascade()) {
+        if (words.length >= count) break;
+
+        const { attempt, numbers, signed } = await fetchEntropyBatch(entry, Math.min(count - words.length, 1024));
+        attempts.push(attempt);
+        if (numbers) {
+            const taken = numbers.slice(0, count - words.length);
+            if (signed) {
+                proofs.push(toRandomOrgProof(signed, words.length, 0, taken.length));
+            }
+            words.push(...taken);
+        }
+    }
+
+    return { words, attempts, proofs };
+}
+
+/**
+ * Words a draw is expected to need, with headroom for rejections
+ * A unique draw from P cards needs P / (P - i) words on average for card i.
+ */
+function estimateDrawWords(n: number, options: DrawOptions): number {
+    const poolSize = options.cardPool?.length ?? TOTAL_CARDS;
+
+    let expected = 0;
+    for (let i = 0; i < n; i++) {
+        expected += options.allowDuplicates ? 1 : poolSize / (poolSize - i);
+    }
+    if (options.reversalPolicy?.type === 'probability') {
+        expected += n; // One orientation word per card
+    }
+
+    return Math.min(Math.ceil(expected * 1.5) + 8, 1024);
+}
+
+/**
+ * Cascade draw: pool first, then live providers, then the slot machine
+ * The words are gathered and committed to before mapping. If rejections use
+ * them all up, the draw tops up live and then from the slot machine; those
+ * words follow the committed ones in the receipt.
+ */
+async function drawFromCascade(n: number, options: DrawOptions, hooks: DrawHooks): Promise<DrawResponse> {
+    const drawId = uuidv4();
+    const state = createDrawState();
+    const { draws } = state;
+
+    // Fix the words (prefetched first, no network round trip) and publish the commitment
+    const { words, attempts, proofs } = await drawEntropyWords(estimateDrawWords(n, options));
+    const committed = commitDrawWords(drawId, toReceiptParams(n, options), words);
+    hooks.onCommitted?.({ draw_id: drawId, commitment: committed.commitment });
+
+    for (const word of words) {
+        if (draws.length >= n) break;
+
+        mapEntropyWord(word, state, options);
+    }
+
+    // Top up live from each provider in cascade order
+    for (const entry of getProviderCascade()) {
+        if (draws.length >= n) break;
+
+        const needed = n - draws.length;
+        // Request extra numbers to account for rejection sampling (and orientation words)
+        const wordsPerCard = options.reversalPolicy?.type === 'probability' ? 2 : 1;
+        const requestSize = Math.min(needed * wordsPerCard * 3, 1024);
+
+        const { attempt, numbers, signed } = await fetchEntropyBatch(entry, requestSize);
+        attempts.push(attempt);
+        if (!numbers) continue; // Continue to next provider in cascade
+
+        // Process numbers with rejection sampling
+        const wordsOffset = state.words.length;
+        for (const num of numbers) {
+            if (draws.length >= n) break;
+
+            mapEntropyWord(num, state, options);
+        }
+
+        if (signed) {
+            proofs.push(toRandomOrgProof(signed, wordsOffset, 0, state.words.length - wordsOffset));
+        }
+    }
+
+    // Remote entropy exhausted: hand the rest of the draw to the slot machine
+    if (draws.length < n) {
+        const slotMachine = createSlotMachineSession(n, options, state, attempts, proofs, committed);
+        return {
+            draws,
+            provenance: { method_used: 'slot_machine', attempts, reversal_policy: options.reversalPolicy },
+            slot_machine: slotMachine,
+        };
+    }
+
+    // Determine final method used
+    const successfulAttempt = attempts.find(a => a.success);
+    const methodUsed = successfulAttempt?.method || 'fallback';
+
+    const receipt = createDrawReceipt(
+        drawId,
+        toReceiptParams(n, options),
+        state.words.length > words.length ? state.words : words,
+        draws,
+        proofs,
+        committed
+    );
+
+    const provenance: RngProvenance = {
+        method_used: methodUsed,
+        attempts,
+        final_seed_or_receipt: encodeDrawReceipt(receipt),
+        reversal_policy: options.reversalPolicy,
+    };
+
+    recordDrawAudit(drawId, { draws, provenance }, options);
+    return { draws, provenance };
+}
+
+/**
+ * Deterministic draw from a seed
+ * Same rejection sampling, uniqueness rules and commitment; bypasses the pool and providers.
+ */
+function drawSeededCards(n: number, options: DrawOptions, seed: string, hooks: DrawHooks): DrawResponse {
+    const drawId = uuidv4();
+    const state = createDrawState();
+    const nextWord = createSeededWordStream(seed);
+    const startedAt = new Date().toISOString();
+
+    const words = Array.from({ length: estimateDrawWords(n, options) }, () => nextWord());
+    const committed = commitDrawWords(drawId, toReceiptParams(n, options), words);
+    hooks.onCommitted?.({ draw_id: drawId, commitment: committed.commitment });
+
+    for (const word of words) {
+        if (state.draws.length >= n) break;
+
+        mapEntropyWord(word, state, options);
+    }
+    while (state.draws.length < n) {
+        mapEntropyWord(nextWord(), state, options);
+    }
+
+    const attempt: RngAttempt = {
+        method: 'seeded',
+        provider: 'seeded_prng',
+        started_at: startedAt,
+        ended_at: new Date().toISOString(),
+        success: true,
+        meta: { algorithm: SEEDED_ALGORITHM, words_used: state.words.length },
+    };
+
+    const receipt = createDrawReceipt(
+        drawId,
+        toReceiptParams(n, options),
+        state.words.length > words.length ? state.words : words,
+        state.draws,
+        [],
+        committed
+    );
+
+    return {
+        draws: state.draws,
+        provenance: {
+            method_used: 'seeded',
+            attempts: [attempt],
+            final_seed_or_receipt: encodeDrawReceipt(receipt),
+            seed,
+            reversal_policy: options.reversalPolicy,
+        },
+    };
+}
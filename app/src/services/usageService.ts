@@ -0,0 +1,90 @@
+/**
+ * Usage Service — Token and cost accounting for model calls
+ *
+ * Each model call adds its token counts to the turn it belongs to and to its
+ * chat session's running totals, priced with src/config/pricing.ts. Session
+ * totals live in server memory and are dropped after USAGE_TTL_MS idle,
+ * like the session decks.
+ */
+
+import { ModelUsage, SessionUsage, UsageSummary } from '@/types';
+import { estimateCredits } from '@/config/pricing';
+import { ModelRole } from '@/config/models';
+import { ChatModelUsage } from '@/lib/models/providers';
+
+const USAGE_TTL_MS = 6 * 60 * 60 * 1000;
+
+export interface ModelCall {
+    role: ModelRole;
+    provider: string;
+    model: string;
+    usage: ChatModelUsage;
+}
+
+const sessions = new Map<string, SessionUsage>();
+
+export function createUsageSummary(): UsageSummary {
+    return { input_tokens: 0, output_tokens: 0, cost_hint: {}, by_model: [] };
+}
+
+/**
+ * Add a model call to a summary, in place
+ */
+export function addModelCall(summary: UsageSummary, call: ModelCall): void {
+    let entry = summary.by_model.find(m => m.role === call.role && m.provider === call.provider && m.model === call.model);
+    if (!entry) {
+        entry = {
+            role: call.role,
+            provider: call.provider,
+            model: call.model,
+            calls: 0,
+            input_tokens: 0,
+            output_tokens: 0,
+            cost_hint: {},
+        };
+        summary.by_model.push(entry);
+    }
+
+    entry.calls++;
+    entry.input_tokens += call.usage.inputTokens;
+    entry.output_tokens += call.usage.outputTokens;
+    entry.cost_hint = { credits_estimated: estimateCredits(entry.provider, entry.model, entry) };
+
+    summary.input_tokens += call.usage.inputTokens;
+    summary.output_tokens += call.usage.outputTokens;
+    summary.cost_hint = { credits_estimated: sumCredits(summary.by_model) };
+}
+
+function sumCredits(models: ModelUsage[]): number | undefined {
+    const priced = models.filter(m => m.cost_hint.credits_estimated !== undefined);
+    if (priced.length === 0) return undefined;
+    return priced.reduce((sum, m) => sum + m.cost_hint.credits_estimated!, 0);
+}
+
+/**
+ * Add a model call to a chat session's running totals
+ */
+export function recordSessionUsage(sessionId: string, call: ModelCall): SessionUsage {
+    const now = Date.now();
+    for (const [id, session] of sessions) {
+        if (now - Date.parse(session.updated_at) > USAGE_TTL_MS) sessions.delete(id);
+    }
+
+    let session = sessions.get(sessionId);
+    if (!session) {
+        session = { ...createUsageSummary(), session_id: sessionId, updated_at: new Date(now).toISOString() };
+        sessions.set(sessionId, session);
+    }
+
+    addModelCall(session, call);
+    session.updated_at = new Date(now).toISOString();
+    return session;
+}
+
+/**
+ * A chat session's running totals, or null if it has made no model calls
+ */
+export function getSessionUsage(sessionId: string): SessionUsage | null {
+    const session = sessions.get(sessionId);
+    return session ? structuredClone(session) : null;
+}
@@ -7,7 +7,15 @@
 // Enums
 // ─────────────────────────────────────────────────────────────────────────────
 
-export type RngMethod = 'qrng' | 'random_org' | 'slot_machine' | 'manual' | 'fallback';
+export type RngMethod = 'qrng' | 'random_org' | 'slot_machine' | 'manual' | 'seeded' | 'shuffle' | 'fallback';
+export type DrawMode = 'rng' | 'shuffle'; // Independent draws, or deal from the session's shuffled deck
+
+// How cards come out reversed (spec/rng.md "Reversal policies")
+export type ReversalPolicy =
+  | { type: 'none' } // Always upright
+  | { type: 'uniform' } // 50/50 from the oriented mapping
+  | { type: 'probability'; p: number } // Reversed with probability p (0–1, applied in steps of 1/1000)
+  | { type: 'jumper' }; // Shuffle mode only: a card is reversed if it jumped out during the shuffle
 export type AiDepth = 'short' | 'medium' | 'deep';
 export type SpreadType = 'system' | 'custom';
 export type MessageRole = 'user' | 'assistant' | 'system';
@@ -29,6 +37,20 @@ export interface Card {
   image: string;
 }
 
+export type CardSuit = NonNullable<Card['suit']>;
+
+// Restricts a draw to a subset of the deck; criteria combine with AND
+export interface CardPoolFilter {
+  arcana?: Card['arcana'];
+  suits?: CardSuit[];
+  card_ids?: number[];
+}
+
+export interface CardPool {
+  filter: CardPoolFilter;
+  card_ids: number[]; // Resolved pool, ascending
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Spread (system or custom templates)
 // ─────────────────────────────────────────────────────────────────────────────
@@ -90,7 +112,47 @@ export interface RngAttempt {
 export interface RngProvenance {
   method_used: RngMethod;
   attempts: RngAttempt[];
-  final_seed_or_receipt?: string;
+  final_seed_or_receipt?: string; // JSON-encoded DrawReceipt
+  seed?: string; // Set on seeded (deterministic) draws only
+  reversal_policy?: ReversalPolicy;
+}
+
+export interface DrawReceiptParams {
+  n: number;
+  allow_duplicates: boolean;
+  allow_reversals: boolean;
+  reversal_policy?: ReversalPolicy; // Omitted on older receipts: uniform or none from allow_reversals
+  card_pool?: number[]; // Resolved pool ids; omitted for the full deck
+}
+
+// random.org generateSignedIntegers output, kept verbatim: the signature covers JSON of `random`
+export interface RandomOrgSignedData {
+  random: Record<string, unknown> & { data: number[]; serialNumber: number };
+  signature: string; // base64 RSA-SHA512 by random.org's key
+}
+
+// Receipt words that came from a signed random.org batch
+export interface RandomOrgProof extends RandomOrgSignedData {
+  serial_number: number;
+  words_offset: number; // Index of the first such word in DrawReceipt.words
+  data_offset: number; // Index of that word in random.data
+  count: number;
+}
+
+// Commit-reveal receipt: the commitment is published before the cards are shown,
+// the words and salt reveal it, and the server signature covers the whole receipt
+export interface DrawReceipt {
+  version: 1;
+  draw_id: string;
+  issued_at: string; // ISO
+  params: DrawReceiptParams;
+  words: number[]; // Committed uint16s, then any added after the commitment; replay stops after n cards
+  committed_words?: number; // Length of the committed prefix of words; all of them if unset
+  salt: string; // hex
+  commitment: string; // sha256(canonical { draw_id, params, words, salt }), hex
+  draws: CardDraw[];
+  random_org?: RandomOrgProof[]; // Set when words came from random.org
+  signature: string; // HMAC-SHA256 over the canonical receipt without signature, hex
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -101,6 +163,20 @@ export interface ReadingCard {
   position_index: number;
   card_id: number; // 0–77
   reversed: boolean;
+  jumper?: boolean; // Jumped out of the session deck during the shuffle
+}
+
+// Extra card drawn after the spread was laid
+export type ClarifierKind = 'clarifier' | 'shadow';
+
+export interface ReadingClarifier {
+  id: string;
+  position_index: number | null; // null = whole spread
+  kind: ClarifierKind;
+  card_id: number;
+  reversed: boolean;
+  drawn_at: string; // ISO
+  rng: RngProvenance;
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -116,12 +192,34 @@ export interface AiCostHint {
   credits_estimated?: number;
 }
 
+// Tokens and estimated cost for one model (or, summed, a turn or session)
+export interface ModelUsage extends Required<AiUsage> {
+  role: 'conversation' | 'thinking' | 'summarizer';
+  provider: string;
+  model: string;
+  calls: number;
+  cost_hint: AiCostHint; // No estimate when the model has no price (src/config/pricing.ts)
+}
+
+export interface UsageSummary extends Required<AiUsage> {
+  cost_hint: AiCostHint; // Sum over the priced models
+  by_model: ModelUsage[];
+}
+
+export interface SessionUsage extends UsageSummary {
+  session_id: string;
+  updated_at: string; // ISO
+}
+
 export interface AiInterpretationResult {
   id: string;
   created_at: string; // ISO
   depth: AiDepth;
-  prompt_version: string;
+  prompt_id?: string; // Prompt name in src/prompts/registry.ts
+  prompt_version: string; // Its semantic version
+  model?: string; // Model that wrote it
   output_text: string;
+  completed_at?: string; // ISO
   usage?: AiUsage;
   cost_hint?: AiCostHint;
 }
@@ -135,8 +233,16 @@ export interface ReadingNotes {
   by_position?: Record<number, string>;
 }
 
+// A focused follow-up on some positions of a reading (interpret_positions)
+export interface PositionInterpretation extends AiInterpretationResult {
+  position_indexes: number[]; // 0-based, every position in focus
+  compare?: [number, number]; // 0-based pair read against each other
+  focus: string; // The user's question about them
+}
+
 export interface ReadingAi {
   one_shot?: AiInterpretationResult;
+  positions?: PositionInterpretation[]; // In the order they were asked
 }
 
 export interface Reading {
@@ -147,7 +253,10 @@ export interface Reading {
   question: string;
   allow_duplicates: boolean;
   allow_reversals: boolean;
+  reversal_policy?: ReversalPolicy;
   cards: ReadingCard[];
+  card_pool?: CardPool; // Set when the draw was restricted to part of the deck
+  clarifiers?: ReadingClarifier[]; // In draw order
   notes?: ReadingNotes;
   rng: RngProvenance;
   ai?: ReadingAi;
@@ -179,16 +288,211 @@ export interface DrawRequest {
   n: number;
   allowDuplicates?: boolean;
   allowReversals?: boolean;
+  reversalPolicy?: ReversalPolicy; // Overrides allowReversals; 'jumper' is not available here
+  seed?: string; // Deterministic draw; development and test only
+  cardPool?: CardPoolFilter; // Draw from part of the deck only
 }
 
 export interface CardDraw {
   cardId: number;
   reversed: boolean;
+  jumper?: boolean; // Shuffle mode: jumped out of the deck during the last shuffle
 }
 
 export interface DrawResponse {
   draws: CardDraw[];
   provenance: RngProvenance;
+  slot_machine?: SlotMachinePending; // Set when remote entropy failed; draws are partial
+}
+
+export interface SlotMachinePending {
+  draw_id: string;
+  n: number;
+  remaining: number;
+  expires_at: string; // ISO
+}
+
+export interface SlotMachineTap {
+  elapsed_ms: number; // Client-reported time since the deck started spinning (metadata only)
+  word: number; // uint16 derived on the server when the tap arrives
+  accepted: boolean;
+  card_id?: number;
+  reversed?: boolean;
+  reason?: 'out_of_range' | 'duplicate' | 'awaiting_orientation'; // awaiting_orientation: card_id picked, next tap turns it
+}
+
+export interface SlotMachineTapRequest {
+  draw_id: string;
+  elapsed_ms: number;
+}
+
+export interface SlotMachineTapResponse {
+  tap: SlotMachineTap;
+  remaining: number;
+  result?: DrawResponse; // Present once all cards are drawn
+}
+
+export interface ManualReadingRequest {
+  spread_slug?: string;
+  custom_positions?: string[];
+  question: string;
+  cards: ReadingCard[]; // One per position, entered from a physical deck
+}
+
+export interface ManualReadingResponse {
+  reading: Reading;
+  spreadWithCards: SpreadWithCards;
+}
+
+export interface ClarifierRequest {
+  spread: SpreadWithCards;
+  position_index?: number | null; // Omit or null for the whole spread
+  kind?: ClarifierKind; // Default 'clarifier'
+  allowReversals?: boolean;
+  reversalPolicy?: ReversalPolicy;
+}
+
+export interface ClarifierResponse {
+  clarifier: SpreadClarifier;
+  spreadWithCards: SpreadWithCards;
+}
+
+export interface VerifyReceiptRequest {
+  receipt: DrawReceipt | string;
+}
+
+export interface VerifyReceiptResponse {
+  valid: boolean;
+  checks: {
+    signature: boolean;
+    commitment: boolean;
+    draws: boolean;
+    random_org?: boolean; // Present when the receipt carries random.org proofs
+  };
+  replayed_draws: CardDraw[];
+  errors: string[];
+}
+
+// Session deck (shuffle draw mode)
+export type ShuffleStep =
+  | { type: 'riffle'; split: number; jumped?: number } // Cards in the top half; card id that jumped out, if any
+  | { type: 'overhand'; packets: number[]; rotated: number[] } // Packet sizes from the top; indexes of packets turned 180°
+  | { type: 'cut'; position: number }; // Cards moved from top to bottom
+
+export type DeckOperation =
+  | {
+    type: 'shuffle';
+    id: string; // Referenced by the deals that follow
+    at: string; // ISO
+    gathered: number; // Dealt cards returned to the deck first
+    steps: ShuffleStep[];
+    words_used: number;
+    entropy: RngAttempt[]; // Where the shuffle's words came from
+  }
+  | { type: 'cut'; at: string; position: number; by: 'user' };
+
+export interface DeckStatus {
+  session_id: string;
+  remaining: number; // Cards left in the deck
+  dealt: CardDraw[]; // Out of the deck until the next shuffle
+  operations: DeckOperation[]; // Since the deck was created, oldest first
+  updated_at: string; // ISO
+}
+
+export interface DeckActionRequest {
+  session_id: string;
+  action: 'shuffle' | 'cut';
+  position?: number; // For 'cut': cards moved from top to bottom
+}
+
+export type RngCircuitState = 'closed' | 'open' | 'half_open';
+
+export interface RngCircuitStatus {
+  state: RngCircuitState;
+  failure_rate: number; // Over the recent outcomes window (0..1)
+  recent_requests: number;
+  opened_at?: string; // ISO
+  retry_at?: string; // ISO, when an open circuit allows a trial
+  last_error?: string;
+}
+
+export interface RngProviderStatus {
+  name: string;
+  method?: RngMethod; // Missing if configured but not registered
+  enabled: boolean;
+  registered: boolean;
+  timeout_ms: number;
+  available: boolean;
+  detail?: string;
+  circuit: RngCircuitStatus;
+}
+
+export interface RngPoolBatch {
+  id: string;
+  provider: string;
+  method: RngMethod;
+  fetched_at: string; // ISO
+  size: number;
+  remaining: number; // Words from this batch still in the pool
+}
+
+export interface RngPoolStatus {
+  enabled: boolean;
+  size: number;
+  target_size: number;
+  low_water_mark: number;
+  refilling: boolean;
+  batches: RngPoolBatch[];
+  last_refill_error?: string;
+}
+
+export interface RngStatusResponse {
+  providers: RngProviderStatus[]; // In cascade order
+  pool: RngPoolStatus;
+}
+
+// Fairness audit (GET /api/rng/audit)
+export interface RngAuditEntry {
+  draw_id: string;
+  at: string; // ISO
+  method_used: RngMethod;
+  provider: string; // Main entropy source, e.g. 'anu_qrng', 'user_taps', 'session_deck'
+  allow_duplicates: boolean;
+  reversal_policy: ReversalPolicy;
+  card_pool?: number[]; // Omitted for the full deck
+  draws: CardDraw[];
+  provenance: RngProvenance; // Full attempt chain and the receipt (final_seed_or_receipt) when there is one
+}
+
+export interface ChiSquareResult {
+  chi_square: number;
+  df: number;
+  p_value: number;
+}
+
+export interface RngAuditCardStats {
+  card_id: number;
+  name: string;
+  count: number;
+  expected: number; // Sum of n / P over draws whose pool held the card
+  reversed: number;
+}
+
+export interface RngAuditReport {
+  from?: string; // ISO, inclusive
+  to?: string; // ISO, exclusive
+  draws: number; // Draw events
+  cards: number; // Cards drawn
+  card_frequency: RngAuditCardStats[]; // By card id
+  frequency_test: ChiSquareResult | null;
+  reversals: {
+    reversed: number;
+    total: number; // Cards drawn under uniform or probability policies
+    ratio: number;
+    expected_ratio: number;
+    test: ChiSquareResult | null;
+  };
+  providers: Array<{ provider: string; draws: number; share: number }>;
 }
 
 export interface InterpretRequest {
@@ -230,19 +534,30 @@ export interface ChatMessage {
 export interface SpreadWithCards {
   reading_id: string;
   question: string;
+  created_at?: string; // When the reading was drawn; missing on spreads laid before it was carried
   spread: SpreadSnapshot;
   cards: Array<{
     position_index: number;
     card: Card;
     reversed: boolean;
+    jumper?: boolean;
   }>;
+  card_pool?: CardPool;
+  allow_duplicates?: boolean;
+  reversal_policy?: ReversalPolicy;
+  rng?: RngProvenance; // From the reading; missing on spreads laid before it was carried
+  clarifiers?: SpreadClarifier[];
+  ai?: ReadingAi; // Set once the reading has been interpreted
 }
 
+export type SpreadClarifier = Omit<ReadingClarifier, 'card_id'> & { card: Card };
+
 export interface SpreadLedgerEntry {
   reading_id: string;
   question_summary: string;
   spread_name: string;
   cards_summary: string;
+  clarifiers_summary?: string;
   created_at: string;
 }
 
@@ -251,6 +566,43 @@ export interface ChatRequest {
   activeSpread?: SpreadWithCards;
   spreadLedger?: SpreadLedgerEntry[];
   conversationSummary?: string; // Summary of older messages (> 20 turns)
+  drawSeed?: string; // Seed for every draw in this turn; development and test only
+  sessionId?: string; // Client chat session (keys the shuffle-mode deck)
+  preferences?: ReadingPreferences;
+  mockModels?: MockModelSelection;
+}
+
+export interface CancelChatTurnRequest {
+  turn_id: string; // X-Chat-Turn-Id of the /api/chat response
+}
+
+// Scripted fixtures (app/src/lib/models/fixtures) in place of the configured models; development and test only
+export interface MockModelSelection {
+  conversation?: string;
+  thinking?: string;
+}
+
+// Result of one scripted chat scenario (/api/chat/harness)
+export interface ChatHarnessResult {
+  name: string;
+  description: string;
+  passed: boolean;
+  events: string[]; // Event types received, consecutive text events collapsed
+  expected: string[];
+  errors: string[];
+}
+
+export interface ChatHarnessReport {
+  passed: boolean;
+  results: ChatHarnessResult[];
+}
+
+export interface ReadingPreferences {
+  drawMode: DrawMode;
+  allowReversals: boolean;
+  reversalPolicy?: ReversalPolicy; // Overrides allowReversals
+  allowDuplicates: boolean; // Ignored when dealing from the session deck
+  interpretationDepth?: AiDepth; // Used when request_interpretation gives no depth (default 'deep')
 }
 
 export interface ToolCall {
@@ -270,6 +622,12 @@ export type ChatStreamEvent =
   | { type: 'text'; content: string }
   | { type: 'tool_call'; id: string; name: string; arguments: Record<string, unknown> }
   | { type: 'tool_result'; name: string; result: unknown }
-  | { type: 'spread_laid'; reading: Reading }
+  | { type: 'spread_laid'; reading: Reading; spreadWithCards: SpreadWithCards }
+  | ({ type: 'slot_machine_required' } & SlotMachinePending)
+  | { type: 'draw_committed'; draw_id: string; commitment: string }
+  | { type: 'clarifier_drawn'; reading_id: string; clarifier: SpreadClarifier; spreadWithCards: SpreadWithCards }
+  | { type: 'reading_interpreted'; reading_id: string; interpretation: AiInterpretationResult }
+  | { type: 'positions_interpreted'; reading_id: string; interpretation: PositionInterpretation }
+  | { type: 'usage'; turn: UsageSummary; session?: SessionUsage } // Sent before done or error
   | { type: 'error'; message: string }
   | { type: 'done' };